@@ -0,0 +1,160 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+// =====================================================================
+// GALLERY MANIFEST
+// Scans public/gallery/ when Vite starts/builds and exposes the real files
+// as `virtual:gallery-manifest`, so numbered mode lists only files that
+// exist and cache-busts them by content hash (see buildGalleryImageList()).
+// =====================================================================
+
+export interface GalleryManifestEntry {
+  /** File name inside the folder, e.g. "10.jpeg". */
+  file: string;
+  /** Public URL path, e.g. "/gallery/10.jpeg". */
+  path: string;
+  kind: "image" | "video";
+  /** Display size (EXIF rotation applied); 0 when it couldn't be read. */
+  width: number;
+  height: number;
+  bytes: number;
+  /** First 10 hex chars of the SHA-1 of the file contents. */
+  hash: string;
+}
+
+export interface GalleryManifest {
+  /** Public URL of the scanned folder, e.g. "/gallery". */
+  folder: string;
+  files: GalleryManifestEntry[];
+}
+
+const VIRTUAL_ID = "virtual:gallery-manifest";
+const RESOLVED_ID = "\0" + VIRTUAL_ID;
+
+const IMAGE_EXT = new Set(["jpg", "jpeg", "png", "webp", "gif", "avif"]);
+const VIDEO_EXT = new Set(["mp4", "webm"]);
+
+function jpegSize(buf: Buffer) {
+  let width = 0;
+  let height = 0;
+  let rotated = false;
+  let i = 2;
+  while (i + 9 < buf.length && buf[i] === 0xff) {
+    const marker = buf[i + 1];
+    const len = buf.readUInt16BE(i + 2);
+    // APP1 Exif: orientations 5–8 are rotated by 90°.
+    if (marker === 0xe1 && buf.toString("latin1", i + 4, i + 10) === "Exif\0\0") {
+      const tiff = i + 10;
+      const le = buf.toString("latin1", tiff, tiff + 2) === "II";
+      const u16 = (o: number) => (le ? buf.readUInt16LE(o) : buf.readUInt16BE(o));
+      const u32 = (o: number) => (le ? buf.readUInt32LE(o) : buf.readUInt32BE(o));
+      const ifd = tiff + u32(tiff + 4);
+      if (ifd + 2 <= buf.length) {
+        const count = u16(ifd);
+        for (let e = 0; e < count && ifd + 2 + e * 12 + 12 <= buf.length; e++) {
+          const entry = ifd + 2 + e * 12;
+          if (u16(entry) === 0x0112) rotated = u16(entry + 8) >= 5;
+        }
+      }
+    }
+    // SOFn (not DHT/JPG/DAC) carries the frame size.
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      height = buf.readUInt16BE(i + 5);
+      width = buf.readUInt16BE(i + 7);
+      break;
+    }
+    i += 2 + len;
+  }
+  return rotated ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Reads dimensions from the file header, sniffing the format from its magic
+ * bytes (files are sometimes misnamed, e.g. a PNG saved as .jpeg).
+ * { 0, 0 } for formats it doesn't know.
+ */
+function imageSize(buf: Buffer) {
+  if (buf.length >= 24 && buf.toString("latin1", 1, 4) === "PNG") {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+  if (buf.length >= 10 && buf.toString("latin1", 0, 3) === "GIF") {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+  if (buf.length >= 30 && buf.toString("latin1", 8, 12) === "WEBP") {
+    const chunk = buf.toString("latin1", 12, 16);
+    if (chunk === "VP8X") {
+      return { width: 1 + buf.readUIntLE(24, 3), height: 1 + buf.readUIntLE(27, 3) };
+    }
+    if (chunk === "VP8L") {
+      const bits = buf.readUInt32LE(21);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    if (chunk === "VP8 ") {
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    }
+  }
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    return jpegSize(buf);
+  }
+  return { width: 0, height: 0 };
+}
+
+function scan(dir: string, folder: string): GalleryManifest {
+  if (!fs.existsSync(dir)) return { folder, files: [] };
+  const files = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((d) => d.isFile() && !d.name.startsWith("."))
+    .map((d) => d.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .flatMap((file): GalleryManifestEntry[] => {
+      const ext = path.extname(file).slice(1).toLowerCase();
+      const kind = IMAGE_EXT.has(ext) ? "image" : VIDEO_EXT.has(ext) ? "video" : null;
+      if (!kind) return [];
+      const buf = fs.readFileSync(path.join(dir, file));
+      const size = kind === "image" ? imageSize(buf) : { width: 0, height: 0 };
+      return [
+        {
+          file,
+          path: `${folder}/${file}`,
+          kind,
+          ...size,
+          bytes: buf.length,
+          hash: crypto.createHash("sha1").update(buf).digest("hex").slice(0, 10),
+        },
+      ];
+    });
+  return { folder, files };
+}
+
+export function galleryManifest({ folder = "/gallery" }: { folder?: string } = {}): Plugin {
+  let dir = "";
+
+  return {
+    name: "gallery-manifest",
+    configResolved(config) {
+      dir = path.join(config.publicDir, folder);
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+      return `export default ${JSON.stringify(scan(dir, folder))};`;
+    },
+    configureServer(server) {
+      // Rescan when files are added, replaced or removed during `npm run dev`.
+      const onChange = (file: string) => {
+        if (path.dirname(path.resolve(file)) !== path.resolve(dir)) return;
+        const mod = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (mod) server.moduleGraph.invalidateModule(mod);
+        server.ws.send({ type: "full-reload" });
+      };
+      server.watcher.add(dir);
+      server.watcher.on("add", onChange);
+      server.watcher.on("change", onChange);
+      server.watcher.on("unlink", onChange);
+    },
+  };
+}
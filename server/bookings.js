@@ -0,0 +1,408 @@
+import crypto from "node:crypto";
+import { createRequire } from "node:module";
+import { checkPromoCode, normalizePromoCode } from "./promotions.js";
+import { addDays, salonNow, timeToMinutes } from "./salonTime.js";
+import { scoreSubmission } from "./spam.js";
+
+// =====================================================================
+// BOOKINGS
+// Server-side twin of src/booking.ts + src/businessHours.ts: the same
+// validation, opening-hours and capacity rules, checked inside a Firestore
+// transaction so two clients can't both take the last chair.
+// =====================================================================
+
+const SETTINGS_DOC = "settings/siteConfig";
+const APPOINTMENTS_COLLECTION = "appointments";
+
+const LIMITS = { name: 60, email: 120, phone: 20, message: 1000 };
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The built-in catalog (also DEFAULT_SITE_SETTINGS.services.items on the
+// client), used until a catalog is published and to fill in durations and
+// chairs missing from older saved services.
+const DEFAULT_SERVICES = createRequire(import.meta.url)("../src/serviceCatalog.json");
+
+/** Same as EMPTY_SERVICE in src/siteSettings.tsx, for custom services without a duration. */
+const FALLBACK_SERVICE = { durationMinutes: 60, capacity: 1 };
+/** Used until the admin has saved opening hours to Firestore. */
+const FALLBACK_HOURS = {
+  weekly: Array.from({ length: 7 }, () => ({ open: true, start: "07:00", end: "19:00" })),
+  closedDates: [],
+  slotMinutes: 30,
+  bookingWindowDays: 60,
+};
+
+// No 0/O or 1/I so references read cleanly over the phone.
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export class BookingError extends Error {
+  constructor(status, message, { field, code } = {}) {
+    super(message);
+    this.status = status;
+    this.field = field;
+    this.code = code;
+  }
+}
+
+function createReference() {
+  let code = "";
+  for (let i = 0; i < 6; i++) {
+    code += REFERENCE_ALPHABET[crypto.randomInt(REFERENCE_ALPHABET.length)];
+  }
+  return `BB-${code}`;
+}
+
+function readHours(settings) {
+  const hours = settings?.hours;
+  if (!hours || !Array.isArray(hours.weekly) || hours.weekly.length !== 7) return FALLBACK_HOURS;
+  return {
+    weekly: hours.weekly,
+    closedDates: Array.isArray(hours.closedDates) ? hours.closedDates : [],
+    slotMinutes: Number(hours.slotMinutes) || 30,
+    bookingWindowDays: Math.max(1, Number(hours.bookingWindowDays) || 60),
+  };
+}
+
+/**
+ * The bookable service for `key`, or null. Gaps are filled the same way as
+ * mergeServiceItems() in src/siteSettings.tsx.
+ */
+function findService(settings, key) {
+  const saved = settings?.services?.items;
+  const items = Array.isArray(saved) ? saved : DEFAULT_SERVICES;
+  const item = items.find((x) => x?.key === key);
+  if (!item || item.active === false) return null;
+  const builtIn = DEFAULT_SERVICES.find((x) => x.key === key) ?? FALLBACK_SERVICE;
+  return {
+    key,
+    durationMinutes: Number(item.durationMinutes) || builtIn.durationMinutes,
+    capacity: Math.max(1, Number(item.capacity) || builtIn.capacity),
+  };
+}
+
+/**
+ * The preferred stylist for `id` if they perform the service and work that
+ * day (same rule as getStylistsForBooking() in src/booking.ts), else null.
+ */
+function findStylist(settings, id, serviceKey, date) {
+  const members = settings?.team?.members;
+  if (!Array.isArray(members)) return null;
+  const m = members.find((x) => x?.id === id);
+  if (!m || m.active === false || !String(m.name ?? "").trim()) return null;
+  const services = Array.isArray(m.services) ? m.services : [];
+  const days = Array.isArray(m.workingDays) ? m.workingDays : [];
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (services.length > 0 && !services.includes(serviceKey)) return null;
+  if (!days.includes(day)) return null;
+  return { id: m.id, name: String(m.name).trim() };
+}
+
+/** Same slot grid as getTimeSlots() in src/businessHours.ts. */
+function isOfferedSlot(hours, date, time, durationMinutes) {
+  if (hours.closedDates.some((x) => x?.date === date)) return false;
+  const day = hours.weekly[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  if (!day?.open) return false;
+
+  const start = timeToMinutes(day.start);
+  const end = timeToMinutes(day.end);
+  const t = timeToMinutes(time);
+  const step = Math.max(5, Math.floor(hours.slotMinutes));
+  if (!Number.isFinite(start) || !Number.isFinite(end) || !Number.isFinite(t)) return false;
+  return t >= start && (t - start) % step === 0 && t < end && t + durationMinutes <= end;
+}
+
+/** Same rule as hasCapacity() in src/booking.ts. */
+function hasCapacity(booked, service, time) {
+  const start = timeToMinutes(time);
+  const end = start + service.durationMinutes;
+  const overlapping = booked
+    .filter((b) => b.service === service.key)
+    .map((b) => {
+      const s = timeToMinutes(b.time);
+      return { start: s, end: s + b.durationMinutes };
+    })
+    .filter((b) => b.start < end && b.end > start);
+
+  if (overlapping.length < service.capacity) return true;
+
+  const points = [start, ...overlapping.map((b) => b.start).filter((p) => p > start)];
+  return points.every(
+    (p) => overlapping.filter((b) => b.start <= p && b.end > p).length < service.capacity
+  );
+}
+
+/** Same rule as isStylistFree() in src/booking.ts. */
+function isStylistFree(booked, stylist, time, durationMinutes) {
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+  return !booked.some((b) => {
+    if (b.stylist !== stylist) return false;
+    const s = timeToMinutes(b.time);
+    return s < end && s + b.durationMinutes > start;
+  });
+}
+
+function toBookedSlots(docs, settings) {
+  return docs
+    .map((d) => d.data())
+    .filter((a) => a.status !== "cancelled" && TIME_RE.test(a.time ?? ""))
+    .map((a) => ({
+      service: a.service,
+      date: a.date,
+      time: a.time,
+      durationMinutes:
+        Number(a.durationMinutes) ||
+        findService(settings, a.service)?.durationMinutes ||
+        FALLBACK_SERVICE.durationMinutes,
+      ...(a.stylist ? { stylist: a.stylist } : {}),
+    }));
+}
+
+function validate(body) {
+  const str = (v) => (typeof v === "string" ? v.trim() : "");
+  const data = {
+    firstName: str(body?.firstName),
+    lastName: str(body?.lastName),
+    email: str(body?.email),
+    phone: str(body?.phone),
+    date: str(body?.date),
+    time: str(body?.time),
+    service: str(body?.service),
+    stylist: str(body?.stylist),
+    message: str(body?.message),
+    // Only the code is trusted; the rest of body.promo is rebuilt from settings.
+    promoCode: normalizePromoCode(body?.promo?.code),
+  };
+
+  const fail = (field, message) => {
+    throw new BookingError(400, message, { field });
+  };
+
+  if (!data.firstName || data.firstName.length > LIMITS.name) fail("firstName", "Please enter your first name.");
+  if (!data.lastName || data.lastName.length > LIMITS.name) fail("lastName", "Please enter your last name.");
+  if (!EMAIL_RE.test(data.email) || data.email.length > LIMITS.email) {
+    fail("email", "Please enter a valid email address.");
+  }
+  const digits = data.phone.replace(/\D/g, "");
+  if (digits.length < 9 || digits.length > 15 || data.phone.length > LIMITS.phone) {
+    fail("phone", "Please enter a valid phone number.");
+  }
+  if (!DATE_RE.test(data.date)) fail("date", "Please choose a date.");
+  if (!TIME_RE.test(data.time)) fail("time", "Please choose a time.");
+  if (data.message.length > LIMITS.message) {
+    fail("message", `Please keep your message under ${LIMITS.message} characters.`);
+  }
+
+  const now = salonNow();
+  if (data.date < now.date || (data.date === now.date && timeToMinutes(data.time) <= now.minutes)) {
+    fail("time", "That time has already passed. Please choose another slot.");
+  }
+  return data;
+}
+
+/** Non-cancelled bookings on a date, without any client details. */
+export async function listBookedSlots(db, date) {
+  if (!DATE_RE.test(String(date ?? ""))) {
+    throw new BookingError(400, "Invalid date", { field: "date" });
+  }
+  const [settingsSnap, snap] = await Promise.all([
+    db.doc(SETTINGS_DOC).get(),
+    db
+      .collection(APPOINTMENTS_COLLECTION)
+      .where("date", "==", date)
+      .select("service", "date", "time", "durationMinutes", "stylist", "status")
+      .get(),
+  ]);
+  return toBookedSlots(snap.docs, settingsSnap.data());
+}
+
+/**
+ * Validate a booking request and store it as a pending appointment, failing
+ * with 409 when the slot has no capacity left.
+ */
+export async function createAppointment(db, body) {
+  const { stylist: stylistId, promoCode, ...data } = validate(body);
+  const ref = db.collection(APPOINTMENTS_COLLECTION).doc();
+  const reference = createReference();
+
+  await db.runTransaction(async (tx) => {
+    const settingsSnap = await tx.get(db.doc(SETTINGS_DOC));
+    const settings = settingsSnap.data();
+
+    const service = findService(settings, data.service);
+    if (!service) throw new BookingError(400, "Please select a service.", { field: "service" });
+
+    const stylist = stylistId ? findStylist(settings, stylistId, service.key, data.date) : null;
+    if (stylistId && !stylist) {
+      throw new BookingError(400, "That stylist isn't available for this service on that day.", {
+        field: "stylist",
+      });
+    }
+
+    // Same window as getLastBookableDate() in src/businessHours.ts (today is day one).
+    const hours = readHours(settings);
+    if (data.date > addDays(salonNow().date, hours.bookingWindowDays - 1)) {
+      throw new BookingError(400, "That date is too far ahead. Please choose an earlier date.", {
+        field: "date",
+      });
+    }
+
+    if (!isOfferedSlot(hours, data.date, data.time, service.durationMinutes)) {
+      throw new BookingError(
+        400,
+        "That time is outside our opening hours. Please choose another slot.",
+        { field: "time" }
+      );
+    }
+
+    const promoCheck = promoCode ? checkPromoCode(settings, promoCode, service.key) : null;
+    if (promoCheck && !promoCheck.ok) {
+      throw new BookingError(400, promoCheck.message, { field: "promoCode" });
+    }
+    if (promoCheck?.usageLimit) {
+      const uses = await tx.get(
+        db.collection(APPOINTMENTS_COLLECTION).where("promo.id", "==", promoCheck.promo.id)
+      );
+      const used = uses.docs.filter((d) => d.data().status !== "cancelled").length;
+      if (used >= promoCheck.usageLimit) {
+        throw new BookingError(409, "Sorry, that promo code has been fully redeemed.", {
+          field: "promoCode",
+          code: "promo_exhausted",
+        });
+      }
+    }
+
+    const sameDay = await tx.get(
+      db.collection(APPOINTMENTS_COLLECTION).where("date", "==", data.date)
+    );
+    const booked = toBookedSlots(sameDay.docs, settings);
+    if (
+      !hasCapacity(booked, service, data.time) ||
+      (stylist && !isStylistFree(booked, stylist.id, data.time, service.durationMinutes))
+    ) {
+      throw new BookingError(409, "Sorry, that slot was just booked. Please choose another time.", {
+        field: "time",
+        code: "slot_unavailable",
+      });
+    }
+
+    // Same phone, same service, same day: most likely a double submit or a bot.
+    const phoneDigits = data.phone.replace(/\D/g, "");
+    const duplicate = sameDay.docs.some((d) => {
+      const a = d.data();
+      return (
+        a.status !== "cancelled" &&
+        a.service === data.service &&
+        String(a.phone ?? "").replace(/\D/g, "") === phoneDigits
+      );
+    });
+    const spam = scoreSubmission({
+      name: `${data.firstName} ${data.lastName}`,
+      text: data.message,
+      duplicate,
+    });
+
+    const createdAt = new Date().toISOString();
+    tx.create(ref, {
+      ...data,
+      ...(stylist ? { stylist: stylist.id, stylistName: stylist.name } : {}),
+      ...(promoCheck ? { promo: promoCheck.promo } : {}),
+      reference,
+      durationMinutes: service.durationMinutes,
+      createdAt,
+      status: "pending",
+      history: [{ at: createdAt, actor: "client", status: "pending" }],
+      spam,
+    });
+  });
+
+  return { id: ref.id, reference };
+}
+
+const STAFF_NOTE_LIMIT = 500;
+
+/** Same as RESCHEDULABLE in src/admin/AdminAppointmentsPanel.tsx. */
+const RESCHEDULABLE_STATUSES = ["pending", "confirmed", "rescheduled", "no-show"];
+
+/**
+ * Move a booking to a new slot for a staff member (see staffAuth.js), with
+ * the same opening-hours, capacity and stylist checks as a new booking.
+ * Owners and managers may overbook on purpose (`allowOverbook`); stylists can't.
+ * Cancelled and completed bookings stay where they are (409).
+ */
+export async function rescheduleAppointment(db, id, body, staff) {
+  const str = (v) => (typeof v === "string" ? v.trim() : "");
+  const date = str(body?.date);
+  const time = str(body?.time);
+  const note = str(body?.note).slice(0, STAFF_NOTE_LIMIT);
+  const allowOverbook = body?.allowOverbook === true && ["owner", "manager"].includes(staff.role);
+
+  if (!DATE_RE.test(date)) throw new BookingError(400, "Please choose a date.", { field: "date" });
+  if (!TIME_RE.test(time)) throw new BookingError(400, "Please choose a time.", { field: "time" });
+  const now = salonNow();
+  if (date < now.date || (date === now.date && timeToMinutes(time) <= now.minutes)) {
+    throw new BookingError(400, "That time has already passed. Please choose another slot.", {
+      field: "time",
+    });
+  }
+
+  const ref = db.collection(APPOINTMENTS_COLLECTION).doc(String(id));
+  await db.runTransaction(async (tx) => {
+    const [snap, settingsSnap] = await Promise.all([tx.get(ref), tx.get(db.doc(SETTINGS_DOC))]);
+    const appointment = snap.data();
+    if (!appointment) throw new BookingError(404, "That booking no longer exists.");
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      throw new BookingError(409, `A ${appointment.status ?? "closed"} booking can't be rescheduled.`, {
+        code: "not_reschedulable",
+      });
+    }
+    if (appointment.date === date && appointment.time === time) return;
+    const settings = settingsSnap.data();
+
+    // Retired services keep their booked duration and are treated as one chair.
+    const found = findService(settings, appointment.service);
+    const service = {
+      key: appointment.service,
+      durationMinutes:
+        Number(appointment.durationMinutes) || found?.durationMinutes || FALLBACK_SERVICE.durationMinutes,
+      capacity: found?.capacity ?? FALLBACK_SERVICE.capacity,
+    };
+
+    if (!isOfferedSlot(readHours(settings), date, time, service.durationMinutes)) {
+      throw new BookingError(400, "That time is outside opening hours.", { field: "time" });
+    }
+
+    const sameDay = await tx.get(db.collection(APPOINTMENTS_COLLECTION).where("date", "==", date));
+    const booked = toBookedSlots(
+      sameDay.docs.filter((d) => d.id !== ref.id),
+      settings
+    );
+    const fits =
+      hasCapacity(booked, service, time) &&
+      (!appointment.stylist ||
+        isStylistFree(booked, appointment.stylist, time, service.durationMinutes));
+    if (!fits && !allowOverbook) {
+      throw new BookingError(409, "That slot is already full. Please choose another time.", {
+        field: "time",
+        code: "slot_unavailable",
+      });
+    }
+
+    const entry = {
+      at: new Date().toISOString(),
+      actor: staff.email,
+      status: "rescheduled",
+      previous: { date: appointment.date, time: appointment.time },
+      ...(note ? { note } : {}),
+    };
+    tx.update(ref, {
+      date,
+      time,
+      status: "rescheduled",
+      history: [...(Array.isArray(appointment.history) ? appointment.history : []), entry],
+    });
+  });
+}
@@ -0,0 +1,46 @@
+import { applicationDefault, cert, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Firebase Admin (bypasses Firestore rules). Configure one of:
+// - FIREBASE_SERVICE_ACCOUNT: the service-account JSON, inline
+// - GOOGLE_APPLICATION_CREDENTIALS: path to the service-account JSON file
+// - FIRESTORE_EMULATOR_HOST + FIREBASE_PROJECT_ID: local emulator
+
+let db = null;
+
+function credentialFromEnv() {
+  const inline = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (inline) return cert(JSON.parse(inline));
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS) return applicationDefault();
+  return null;
+}
+
+function getAdminApp() {
+  const credential = credentialFromEnv();
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  if (!credential && !(process.env.FIRESTORE_EMULATOR_HOST && projectId)) return null;
+
+  return (
+    getApps()[0] ??
+    initializeApp({
+      ...(credential ? { credential } : {}),
+      ...(projectId ? { projectId } : {}),
+    })
+  );
+}
+
+/** Firestore Admin instance, or null when the server isn't configured for Firebase. */
+export function getAdminDb() {
+  if (db) return db;
+  const app = getAdminApp();
+  if (!app) return null;
+  db = getFirestore(app);
+  return db;
+}
+
+/** Firebase Auth Admin instance (to verify staff ID tokens), or null when not configured. */
+export function getAdminAuth() {
+  const app = getAdminApp();
+  return app ? getAuth(app) : null;
+}
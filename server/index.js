@@ -9,6 +9,15 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
+import { getAdminDb } from "./firebaseAdmin.js";
+import {
+  BookingError,
+  createAppointment,
+  listBookedSlots,
+  rescheduleAppointment,
+} from "./bookings.js";
+import { ReviewError, createReview } from "./reviews.js";
+import { StaffAuthError, verifyStaff } from "./staffAuth.js";
 
 dotenv.config();
 
@@ -23,8 +32,12 @@ const JWT_SECRET =
   // Fallback secret for local/offline usage. For production, set JWT_SECRET.
   "berlybeauty_change_me_in_env";
 
-const ADMIN_EMAIL_DEFAULT = process.env.ADMIN_EMAIL || "jayteca15@gmail.com";
-const ADMIN_PASSWORD_DEFAULT = process.env.ADMIN_PASSWORD || "Berly2026";
+// Seeds the first owner in server/admin.json (legacy JWT login). The website
+// itself signs in with Firebase Auth and the admins collection.
+const ADMIN_EMAIL_SEED = process.env.ADMIN_EMAIL || "";
+const ADMIN_PASSWORD_SEED = process.env.ADMIN_PASSWORD || "";
+
+const ADMIN_ROLES = ["owner", "manager", "stylist", "read-only"];
 
 const ADMIN_FILE = path.join(__dirname, "admin.json");
 
@@ -38,8 +51,31 @@ const loginLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-function signToken(email) {
-  return jwt.sign({ sub: email, role: "admin" }, JWT_SECRET, { expiresIn: "7d" });
+const tooManySubmissions = {
+  ok: false,
+  code: "rate_limited",
+  message: "Too many submissions from this connection. Please try again later.",
+};
+
+// Per-IP limits on public writes (trust proxy is set below, so req.ip is the client).
+const bookingLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: tooManySubmissions,
+});
+
+const reviewLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: tooManySubmissions,
+});
+
+function signToken(email, role) {
+  return jwt.sign({ sub: email, role }, JWT_SECRET, { expiresIn: "7d" });
 }
 
 function verifyToken(token) {
@@ -63,20 +99,28 @@ function writeJsonSafe(filePath, data) {
   fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf-8");
 }
 
-async function ensureAdminRecord() {
+/** server/admin.json as `{ admins: [{ email, passwordHash, role }] }`. */
+async function ensureAdminRecords() {
   const existing = readJsonSafe(ADMIN_FILE);
-  if (existing?.email && existing?.passwordHash) return existing;
+  if (Array.isArray(existing?.admins)) {
+    return existing.admins.filter((a) => a?.email && a?.passwordHash && ADMIN_ROLES.includes(a.role));
+  }
+
+  // Single-admin file from before roles existed: that admin is the owner.
+  if (existing?.email && existing?.passwordHash) {
+    const admins = [{ email: existing.email, passwordHash: existing.passwordHash, role: "owner" }];
+    writeJsonSafe(ADMIN_FILE, { admins, updatedAt: new Date().toISOString() });
+    return admins;
+  }
 
-  const passwordHash = await bcrypt.hash(ADMIN_PASSWORD_DEFAULT, 12);
-  const record = {
-    email: ADMIN_EMAIL_DEFAULT,
-    passwordHash,
-    updatedAt: new Date().toISOString(),
-  };
+  if (!ADMIN_EMAIL_SEED || !ADMIN_PASSWORD_SEED) return [];
+
+  const passwordHash = await bcrypt.hash(ADMIN_PASSWORD_SEED, 12);
+  const admins = [{ email: ADMIN_EMAIL_SEED.trim().toLowerCase(), passwordHash, role: "owner" }];
 
   // Create server/admin.json the first time.
-  writeJsonSafe(ADMIN_FILE, record);
-  return record;
+  writeJsonSafe(ADMIN_FILE, { admins, updatedAt: new Date().toISOString() });
+  return admins;
 }
 
 function getTokenFromRequest(req) {
@@ -148,12 +192,11 @@ app.post("/api/login", loginLimiter, async (req, res) => {
     return res.status(400).json({ ok: false, message: "Missing email/password" });
   }
 
-  const admin = await ensureAdminRecord();
-
-  const emailOk =
-    String(email).trim().toLowerCase() ===
-    String(admin.email).trim().toLowerCase();
-  if (!emailOk) {
+  const admins = await ensureAdminRecords();
+  const admin = admins.find(
+    (a) => String(a.email).trim().toLowerCase() === String(email).trim().toLowerCase()
+  );
+  if (!admin) {
     return res.status(401).json({ ok: false, message: "Invalid credentials" });
   }
 
@@ -162,7 +205,7 @@ app.post("/api/login", loginLimiter, async (req, res) => {
     return res.status(401).json({ ok: false, message: "Invalid credentials" });
   }
 
-  const token = signToken(admin.email);
+  const token = signToken(admin.email, admin.role);
 
   res.cookie(COOKIE_NAME, token, {
     httpOnly: true,
@@ -172,7 +215,7 @@ app.post("/api/login", loginLimiter, async (req, res) => {
     maxAge: 7 * 24 * 60 * 60 * 1000,
   });
 
-  res.json({ ok: true, email: admin.email });
+  res.json({ ok: true, email: admin.email, role: admin.role });
 });
 
 app.post("/api/logout", (req, res) => {
@@ -197,17 +240,96 @@ app.get("/api/me", async (req, res) => {
   }
 });
 
+function sendSubmissionError(res, err) {
+  if (err instanceof StaffAuthError) {
+    return res.status(err.status).json({ ok: false, message: err.message });
+  }
+  if (err instanceof BookingError || err instanceof ReviewError) {
+    return res
+      .status(err.status)
+      .json({ ok: false, message: err.message, field: err.field, code: err.code });
+  }
+  console.error("Submission error", err);
+  res.status(500).json({ ok: false, message: "Could not process the request" });
+}
+
+function requireAdminDb(res) {
+  const db = getAdminDb();
+  if (!db) {
+    res.status(503).json({ ok: false, message: "Submissions are not configured on this server" });
+  }
+  return db;
+}
+
+// Public availability: service/time/duration of non-cancelled bookings on a date.
+app.get("/api/availability", async (req, res) => {
+  const db = requireAdminDb(res);
+  if (!db) return;
+
+  try {
+    const booked = await listBookedSlots(db, req.query.date);
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, date: req.query.date, booked });
+  } catch (err) {
+    sendSubmissionError(res, err);
+  }
+});
+
+app.post("/api/appointments", bookingLimiter, async (req, res) => {
+  const db = requireAdminDb(res);
+  if (!db) return;
+
+  try {
+    const { id, reference } = await createAppointment(db, req.body);
+    res.status(201).json({ ok: true, id, reference });
+  } catch (err) {
+    sendSubmissionError(res, err);
+  }
+});
+
+// Staff reschedules: the Firestore rules don't let stylists move bookings
+// directly, so slot changes are capacity-checked here.
+app.post("/api/appointments/:id/reschedule", async (req, res) => {
+  const db = requireAdminDb(res);
+  if (!db) return;
+
+  try {
+    const staff = await verifyStaff(db, req, ["owner", "manager", "stylist"]);
+    await rescheduleAppointment(db, req.params.id, req.body, staff);
+    res.json({ ok: true });
+  } catch (err) {
+    sendSubmissionError(res, err);
+  }
+});
+
+app.post("/api/reviews", reviewLimiter, async (req, res) => {
+  const db = requireAdminDb(res);
+  if (!db) return;
+
+  try {
+    const { id } = await createReview(db, req.body);
+    res.status(201).json({ ok: true, id });
+  } catch (err) {
+    sendSubmissionError(res, err);
+  }
+});
+
 // Optional: serve the built website (dist/) for production usage.
 const distPath = path.join(process.cwd(), "dist");
 if (fs.existsSync(distPath)) {
   app.use(express.static(distPath));
-  app.get("*", (req, res) => {
+  // Client-side routes (/services/…, /admin/…) all load the SPA.
+  app.get("/{*splat}", (req, res) => {
     res.sendFile(path.join(distPath, "index.html"));
   });
 }
 
 app.listen(PORT, async () => {
-  await ensureAdminRecord();
+  const admins = await ensureAdminRecords();
   console.log(`Berly Beauty backend running on http://localhost:${PORT}`);
-  console.log(`Admin file: ${ADMIN_FILE}`);
+  console.log(
+    admins.length
+      ? `Admin file: ${ADMIN_FILE}`
+      : "No legacy admin login configured (set ADMIN_EMAIL and ADMIN_PASSWORD to create one)."
+  );
 });
@@ -0,0 +1,93 @@
+import { salonNow, timeToMinutes } from "./salonTime.js";
+
+// =====================================================================
+// PROMOTIONS
+// Server-side twin of the promo code rules in src/promotions.ts: a code is
+// only accepted while its special is live (dates, weekdays and time window
+// on the salon's clock), before its own expiry and for its services.
+// Usage limits are counted in the booking transaction (bookings.js).
+// =====================================================================
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Same as normalizePromotionDate(): older saves hold ISO timestamps. */
+function normalizeDate(value) {
+  if (typeof value !== "string" || !value.trim()) return "";
+  if (DATE_RE.test(value)) return value;
+  const t = new Date(value);
+  return Number.isNaN(t.getTime()) ? "" : salonNow(t).date;
+}
+
+export function normalizePromoCode(value) {
+  return typeof value === "string"
+    ? value.toUpperCase().replace(/[^A-Z0-9-]/g, "").slice(0, 20)
+    : "";
+}
+
+/** Same rule as getPromotionStatus(p) === "live" in src/promotions.ts. */
+function isLive(p, now) {
+  const { date, minutes } = salonNow(now);
+  const validFrom = normalizeDate(p.validFrom);
+  const validUntil = normalizeDate(p.validUntil);
+  if (validFrom && date < validFrom) return false;
+  if (validUntil && date > validUntil) return false;
+
+  const days = Array.isArray(p.days) ? p.days : [];
+  if (days.length > 0 && !days.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) return false;
+
+  const start = timeToMinutes(p.startTime);
+  const end = timeToMinutes(p.endTime);
+  if (!Number.isFinite(start) && !Number.isFinite(end)) return true;
+  const from = Number.isFinite(start) ? start : 0;
+  const to = Number.isFinite(end) ? end : 24 * 60;
+  return to <= from || (minutes >= from && minutes < to);
+}
+
+function isCodeExpired(p, now) {
+  const codeExpires = normalizeDate(p.codeExpires);
+  return Boolean(codeExpires) && salonNow(now).date > codeExpires;
+}
+
+function formatDiscount(discount) {
+  const amount = Math.max(0, Number(discount?.amount) || 0);
+  if (!amount) return "";
+  return discount?.type === "fixed" ? `R${amount} off` : `${amount}% off`;
+}
+
+/**
+ * Check `code` for a booking of `serviceKey`: `{ ok: true, usageLimit, promo }`
+ * (promo = what's stored on the appointment) or `{ ok: false, message }`.
+ */
+export function checkPromoCode(settings, code, serviceKey, now = new Date()) {
+  const wanted = normalizePromoCode(code);
+  const promotions = settings?.promotions;
+  const items = promotions?.enabled !== false && Array.isArray(promotions?.items) ? promotions.items : [];
+  const matches = items.filter((p) => p?.id && normalizePromoCode(p.code) === wanted);
+  // Codes should be unique, but an expired special may still share one with a live one.
+  const promotion =
+    matches.find(
+      (p) => String(p.title ?? "").trim() && isLive(p, now) && !isCodeExpired(p, now)
+    ) ?? matches[0];
+  if (!wanted || !promotion) return { ok: false, message: "We don't recognise that promo code." };
+
+  if (isCodeExpired(promotion, now)) {
+    return { ok: false, message: "That promo code has expired." };
+  }
+  if (!String(promotion.title ?? "").trim() || !isLive(promotion, now)) {
+    return { ok: false, message: "That promo code isn't valid right now." };
+  }
+  const services = Array.isArray(promotion.services) ? promotion.services : [];
+  if (services.length > 0 && !services.includes(serviceKey)) {
+    return { ok: false, message: "That promo code doesn't apply to this service." };
+  }
+  return {
+    ok: true,
+    usageLimit: Math.max(0, Math.floor(Number(promotion.usageLimit) || 0)),
+    promo: {
+      id: promotion.id,
+      code: wanted,
+      title: String(promotion.title).trim(),
+      discount: formatDiscount(promotion.discount),
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { scoreSubmission, textHash } from "./spam.js";
+
+// =====================================================================
+// REVIEWS
+// Public review submissions. firestore.rules denies every client create,
+// so this is the only place a review's schema is validated; each one is
+// stored pending with a spam score for the moderation queue.
+// =====================================================================
+
+const REVIEWS_COLLECTION = "reviews";
+
+const LIMITS = { nameMin: 2, name: 60, service: 80, textMin: 10, text: 500 };
+
+export class ReviewError extends Error {
+  constructor(status, message, { field } = {}) {
+    super(message);
+    this.status = status;
+    this.field = field;
+  }
+}
+
+function validate(body) {
+  const str = (v) => (typeof v === "string" ? v.trim() : "");
+  const data = {
+    name: str(body?.name),
+    service: str(body?.service),
+    rating: body?.rating,
+    text: str(body?.text),
+  };
+
+  const fail = (field, message) => {
+    throw new ReviewError(400, message, { field });
+  };
+
+  if (data.name.length < LIMITS.nameMin || data.name.length > LIMITS.name) {
+    fail("name", "Please enter your name.");
+  }
+  if (!data.service || data.service.length > LIMITS.service) fail("service", "Please select a service.");
+  if (!Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+    fail("rating", "Please choose a rating.");
+  }
+  if (data.text.length < LIMITS.textMin) {
+    fail("text", `Please write a short review (at least ${LIMITS.textMin} characters).`);
+  }
+  if (data.text.length > LIMITS.text) {
+    fail("text", `Please keep your review under ${LIMITS.text} characters.`);
+  }
+  return data;
+}
+
+/** Validate, score and queue a review for moderation (always pending). */
+export async function createReview(db, body) {
+  const data = validate(body);
+  const hash = textHash(data.text);
+
+  const earlier = await db
+    .collection(REVIEWS_COLLECTION)
+    .where("textHash", "==", hash)
+    .limit(1)
+    .get();
+
+  const spam = scoreSubmission({
+    name: data.name,
+    text: data.text,
+    honeypot: body?.website,
+    duplicate: !earlier.empty,
+  });
+
+  const ref = await db.collection(REVIEWS_COLLECTION).add({
+    ...data,
+    date: FieldValue.serverTimestamp(),
+    status: "pending",
+    spam,
+    textHash: hash,
+  });
+  return { id: ref.id };
+}
@@ -0,0 +1,41 @@
+// =====================================================================
+// SALON TIME
+// The salon's clock, shared by bookings.js and promotions.js (the server
+// twins of salonNow(), addDays() and timeToMinutes() in src/businessHours.ts).
+// =====================================================================
+
+export const SALON_TIME_ZONE = process.env.SALON_TIME_ZONE || "Africa/Johannesburg";
+
+/** Current date ("YYYY-MM-DD") and minute of the day in the salon's time zone. */
+export function salonNow(now = new Date()) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: SALON_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** "YYYY-MM-DD" `days` after `date` (calendar arithmetic, no time zone). */
+export function addDays(date, days) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function timeToMinutes(time) {
+  const [h, m] = String(time ?? "").split(":").map((v) => parseInt(v, 10));
+  if (Number.isNaN(h) || Number.isNaN(m)) return NaN;
+  return h * 60 + m;
+}
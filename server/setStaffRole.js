@@ -0,0 +1,45 @@
+import dotenv from "dotenv";
+import { getAdminDb } from "./firebaseAdmin.js";
+
+// Grant, change or remove admin-panel access from the command line. Needed
+// once to create the first owner; after that owners manage staff in the panel.
+//
+//   npm run staff -- owner@example.com owner
+//   npm run staff -- stylist@example.com stylist "Thandi"
+//   npm run staff -- stylist@example.com --remove
+
+dotenv.config();
+
+const ROLES = ["owner", "manager", "stylist", "read-only"];
+
+const [emailArg, roleArg, name] = process.argv.slice(2);
+const email = String(emailArg ?? "").trim().toLowerCase();
+
+if (!email || !roleArg || (roleArg !== "--remove" && !ROLES.includes(roleArg))) {
+  console.error(`Usage: npm run staff -- <email> <${ROLES.join("|")}|--remove> [name]`);
+  process.exit(1);
+}
+
+const db = getAdminDb();
+if (!db) {
+  console.error("Firebase Admin is not configured (see FIREBASE_SETUP.md, section 5).");
+  process.exit(1);
+}
+
+const ref = db.collection("admins").doc(email);
+if (roleArg === "--remove") {
+  await ref.delete();
+  console.log(`Removed admin access for ${email}`);
+} else {
+  await ref.set(
+    {
+      role: roleArg,
+      active: true,
+      ...(name ? { name } : {}),
+      createdAt: new Date().toISOString(),
+      createdBy: "cli",
+    },
+    { merge: true }
+  );
+  console.log(`${email} is now ${roleArg}`);
+}
@@ -0,0 +1,66 @@
+import crypto from "node:crypto";
+
+// =====================================================================
+// SPAM HEURISTICS
+// Cheap signals for public submissions. The score (0-100) is stored on the
+// document and flagged in the admin UI (see SPAM_FLAG_THRESHOLD in
+// src/api/firestoreService.ts); nothing is dropped, so a false positive
+// only costs a look in the admin queue.
+// =====================================================================
+
+const PROFANITY = ["fuck", "shit", "bitch", "cunt", "asshole", "bastard", "slut", "whore", "dickhead"];
+const SPAM_KEYWORDS = ["viagra", "casino", "crypto", "bitcoin", "forex", "loan", "seo", "backlink", "escort"];
+
+const LINK_RE = /(https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|info|biz|xyz|top|ru|io|co)\b)/gi;
+const HAS_LINK_RE = new RegExp(LINK_RE.source, "i");
+
+function containsWord(text, words) {
+  return words.some((w) => new RegExp(`\\b${w}s?\\b`, "i").test(text));
+}
+
+/** Lowercased, punctuation-free, single-spaced text for duplicate checks. */
+export function normalizeText(text) {
+  return String(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function textHash(text) {
+  return crypto.createHash("sha256").update(normalizeText(text)).digest("hex").slice(0, 32);
+}
+
+/**
+ * Score free-text fields. `duplicate` is decided by the caller (it needs a
+ * Firestore lookup) and simply adds to the score.
+ */
+export function scoreSubmission({ name = "", text = "", honeypot = "", duplicate = false }) {
+  const reasons = [];
+  let score = 0;
+  const add = (points, reason) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (String(honeypot).trim()) add(100, "honeypot field filled");
+
+  const links = (text.match(LINK_RE) ?? []).length;
+  if (links === 1) add(40, "contains a link");
+  else if (links > 1) add(70, "contains links");
+
+  if (HAS_LINK_RE.test(name) || /\d{4,}/.test(name)) add(30, "suspicious name");
+
+  if (containsWord(`${name} ${text}`, PROFANITY)) add(40, "profanity");
+  if (containsWord(text, SPAM_KEYWORDS)) add(30, "spam keywords");
+
+  const letters = text.replace(/[^a-z]/gi, "");
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7) {
+    add(15, "mostly capitals");
+  }
+  if (/(.)\1{5,}/.test(text)) add(15, "repeated characters");
+
+  if (duplicate) add(60, "duplicate of an earlier submission");
+
+  return { score: Math.min(100, score), reasons };
+}
@@ -0,0 +1,40 @@
+import { getAdminAuth } from "./firebaseAdmin.js";
+
+// =====================================================================
+// STAFF AUTH
+// Staff-only API calls send the admin panel's Firebase ID token as
+// `Authorization: Bearer <token>`; the caller must have a verified email on
+// the admins allowlist, the same check as hasRole() in firestore.rules.
+// =====================================================================
+
+export class StaffAuthError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** `{ email, role }` of the signed-in staff member, if their role is in `roles`. */
+export async function verifyStaff(db, req, roles) {
+  const auth = getAdminAuth();
+  const header = String(req.headers.authorization ?? "");
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!auth || !token) throw new StaffAuthError(401, "Please sign in again.");
+
+  let claims;
+  try {
+    claims = await auth.verifyIdToken(token);
+  } catch {
+    throw new StaffAuthError(401, "Please sign in again.");
+  }
+  const email = typeof claims.email === "string" ? claims.email.toLowerCase() : "";
+  if (!email || claims.email_verified !== true) {
+    throw new StaffAuthError(403, "Please verify your email address first.");
+  }
+
+  const staff = (await db.collection("admins").doc(email).get()).data();
+  if (!staff || staff.active === false || !roles.includes(staff.role)) {
+    throw new StaffAuthError(403, "You don't have permission to do that.");
+  }
+  return { email: claims.email, role: staff.role };
+}
@@ -2,31 +2,97 @@ import {
   useState,
   useEffect,
   useMemo,
+  useRef,
   createContext,
   useContext,
   ReactNode,
   type CSSProperties,
 } from "react";
 import {
+  BrowserRouter,
+  Link,
+  Navigate,
+  NavLink,
+  Outlet,
+  Route,
+  Routes,
+  useLocation,
+  useMatch,
+  useNavigate,
+  useParams,
+} from "react-router-dom";
+import {
+  SiteSettingsPreview,
   SiteSettingsProvider,
   buildGalleryImageList,
+  getActiveServices,
+  getActiveTeam,
+  buildSrcSet,
+  getGalleryCategories,
+  getGalleryImageMeta,
+  getGalleryManifestEntry,
+  getServiceGalleryImages,
+  getServiceLabel,
+  isVideoUrl,
+  useSettingsDraft,
   useSiteSettings,
+  versionedAssetUrl,
+  type ServiceIcon,
 } from "./siteSettings";
 import { AdminSettingsPanel } from "./admin/AdminSettingsPanel";
+import { AdminAppointmentsPanel } from "./admin/AdminAppointmentsPanel";
+import { AdminReviewsPanel } from "./admin/AdminReviewsPanel";
+import { AdminStaffPanel } from "./admin/AdminStaffPanel";
+import { formatDuration, formatTime24To12 } from "./utils/format";
+import {
+  checkPromoCode,
+  describePromotionSchedule,
+  formatDiscount,
+  getLivePromotions,
+} from "./promotions";
+import {
+  EMPTY_BOOKING_FORM,
+  getAvailableTimeSlots,
+  getStylistsForBooking,
+  validateBooking,
+  type BookedSlot,
+  type BookingFormData,
+} from "./booking";
+import {
+  formatWeeklyHours,
+  getBookableDates,
+  getTimeSlots,
+  getUpcomingClosedDates,
+  WEEK_DISPLAY_ORDER,
+  WEEKDAY_SHORT,
+} from "./businessHours";
 
 // Auth Context
-import { adminLogin, adminLogout, adminMe } from "./api/adminAuth";
+import {
+  adminLogin,
+  adminLogout,
+  adminMe,
+  ADMIN_ROLE_LABELS,
+  can,
+  type AdminPermission,
+  type AdminProfile,
+} from "./api/adminAuth";
+
+// Public submissions API (Express server)
+import { fetchBookedSlots, submitAppointment, submitReview } from "./api/serverApi";
 
 // Firestore
 import {
-  addReview as addReviewToFirestore,
+  REVIEW_LIMITS,
   subscribeReviews,
-  deleteReview as deleteReviewFromFirestore,
+  type AppointmentPromo,
   type FirestoreReview,
 } from "./api/firestoreService";
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  /** Signed-in staff member and their role; null when signed out. */
+  admin: AdminProfile | null;
   authChecked: boolean;
   login: (
     email: string,
@@ -38,35 +104,36 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 function AuthProvider({ children }: { children: ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [admin, setAdmin] = useState<AdminProfile | null>(null);
   const [authChecked, setAuthChecked] = useState(false);
+  const isAuthenticated = admin !== null;
 
   useEffect(() => {
     adminMe()
-      .then((ok) => setIsAuthenticated(ok))
+      .then((profile) => setAdmin(profile))
       .finally(() => setAuthChecked(true));
   }, []);
 
   const login = async (email: string, password: string) => {
     const result = await adminLogin(email, password);
     if (result.ok) {
-      setIsAuthenticated(true);
+      setAdmin(result.profile);
       setAuthChecked(true);
       return { ok: true };
     }
-    setIsAuthenticated(false);
+    setAdmin(null);
     setAuthChecked(true);
     return { ok: false, message: result.message };
   };
 
   const logout = async () => {
     await adminLogout();
-    setIsAuthenticated(false);
+    setAdmin(null);
     setAuthChecked(true);
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, authChecked, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, admin, authChecked, login, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -78,11 +145,36 @@ function useAuth() {
   return context;
 }
 
-type Page = "home" | "admin-login" | "admin-dashboard";
-
 /* ─────────────────────────────────────────────
    NAVBAR
    ───────────────────────────────────────────── */
+type NavItem = { label: string; to?: string; href?: string };
+
+function NavbarLink({
+  item,
+  className,
+  onClick,
+  children,
+}: {
+  item: NavItem;
+  className: string;
+  onClick?: () => void;
+  children: ReactNode;
+}) {
+  if (item.to) {
+    return (
+      <Link to={item.to} onClick={onClick} className={className}>
+        {children}
+      </Link>
+    );
+  }
+  return (
+    <a href={item.href} onClick={onClick} className={className}>
+      {children}
+    </a>
+  );
+}
+
 function Navbar() {
   const [isOpen, setIsOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
@@ -93,8 +185,23 @@ function Navbar() {
     return () => window.removeEventListener("scroll", handleScroll);
   }, []);
 
+  const { settings } = useSiteSettings();
+  const onServicePage = useMatch("/services/:key") !== null;
   const onHero = !scrolled;
-  const links = ["Home", "Services", "Specials", "Gallery", "Reviews", "Contact"];
+  const showTeam = settings.team.enabled && getActiveTeam(settings).length > 0;
+  // Sections with their own route link there (shareable URLs); the rest are in-page anchors.
+  const links: NavItem[] = [
+    { label: "Home", to: "/" },
+    { label: "Services", to: "/services" },
+    ...(showTeam ? [{ label: "Team", href: "#team" }] : []),
+    { label: "Specials", href: "#specials" },
+    { label: "Gallery", to: "/gallery" },
+    { label: "Reviews", to: "/reviews" },
+    { label: "Contact", href: "#contact" },
+  ].map((item) =>
+    // Service pages only have the booking anchor; other sections live on the home page.
+    onServicePage && item.href && item.href !== "#contact" ? { label: item.label, to: `/${item.href}` } : item
+  );
 
   return (
     <nav
@@ -108,7 +215,7 @@ function Navbar() {
       <div className="max-w-7xl mx-auto px-6 lg:px-8">
         <div className="flex justify-between items-center h-20">
           {/* Brand */}
-          <a href="#home" className="flex items-center gap-3 group">
+          <Link to="/" className="flex items-center gap-3 group">
             <div
               className={
                 "w-11 h-11 rounded-full border-2 flex items-center justify-center transition-all duration-300 " +
@@ -144,14 +251,14 @@ function Navbar() {
                 Beauty
               </span>
             </div>
-          </a>
+          </Link>
 
           {/* Desktop links */}
           <div className="hidden lg:flex items-center gap-8">
             {links.map((item) => (
-              <a
-                key={item}
-                href={`#${item.toLowerCase()}`}
+              <NavbarLink
+                key={item.label}
+                item={item}
                 className={
                   "text-[13px] tracking-widest uppercase font-medium transition-all duration-300 relative group " +
                   (onHero
@@ -159,14 +266,14 @@ function Navbar() {
                     : "text-stone-500 hover:text-stone-900")
                 }
               >
-                {item}
+                {item.label}
                 <span
                   className={
                     "absolute -bottom-1 left-0 w-0 h-[2px] transition-all duration-300 group-hover:w-full " +
                     (onHero ? "bg-amber-400" : "bg-amber-700")
                   }
                 />
-              </a>
+              </NavbarLink>
             ))}
             <a
               href="#contact"
@@ -232,9 +339,9 @@ function Navbar() {
             }
           >
             {links.map((item) => (
-              <a
-                key={item}
-                href={`#${item.toLowerCase()}`}
+              <NavbarLink
+                key={item.label}
+                item={item}
                 onClick={() => setIsOpen(false)}
                 className={
                   "block py-2.5 px-3 rounded-xl text-[13px] tracking-widest uppercase font-medium transition-colors " +
@@ -243,8 +350,8 @@ function Navbar() {
                     : "text-stone-600 hover:text-stone-900 hover:bg-stone-100")
                 }
               >
-                {item}
-              </a>
+                {item.label}
+              </NavbarLink>
             ))}
             <a
               href="#contact"
@@ -418,67 +525,26 @@ function Hero() {
 /* ─────────────────────────────────────────────
    SERVICES
    ───────────────────────────────────────────── */
+const SERVICE_ICON_PATHS: Record<ServiceIcon, string> = {
+  wig: "M5.121 17.804A13.937 13.937 0 0112 16c2.5 0 4.847.655 6.879 1.804M15 10a3 3 0 11-6 0 3 3 0 016 0zm6 2a9 9 0 11-18 0 9 9 0 0118 0z",
+  braids: "M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z",
+  sparkle: "M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z",
+  grid: "M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z",
+  bolt: "M13 10V3L4 14h7v7l9-11h-7z",
+  nails: "M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01",
+  fabric: "M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z",
+  heart: "M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z",
+  brush: "M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42",
+};
+
+function ServiceIconSvg({ icon }: { icon: ServiceIcon }) {
+  const d = SERVICE_ICON_PATHS[icon] ?? SERVICE_ICON_PATHS.sparkle;
+  return (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d={d} /></svg>);
+}
+
 function Services() {
-  const services = [
-    {
-      key: "wigs", title: "Premium Wigs", category: "Hair",
-      description: "High-quality wigs expertly installed and styled for a natural finish and confident wear.",
-      price: "Starts from R450",
-      highlights: ["Lace Front", "Custom Coloring", "Install & Styling"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5.121 17.804A13.937 13.937 0 0112 16c2.5 0 4.847.655 6.879 1.804M15 10a3 3 0 11-6 0 3 3 0 016 0zm6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>),
-      featured: true,
-    },
-    {
-      key: "braids", title: "Braids", category: "Hair",
-      description: "Classic and modern braiding styles executed with neat parts, smooth finishes and lasting hold.",
-      price: "Starts from R250",
-      highlights: ["Knotless", "Box Braids", "Cornrows"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>),
-      featured: true,
-    },
-    {
-      key: "bohemia", title: "Bohemia Braids", category: "Hair",
-      description: "Soft, romantic braids with wavy ends for an effortless boho finish.",
-      highlights: ["Boho Knotless", "Wavy Ends", "Custom Length"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" /></svg>),
-    },
-    {
-      key: "locs", title: "Locs", category: "Hair",
-      description: "Installations, retwists and styling that support healthy growth and a clean look.",
-      highlights: ["Installations", "Retwists", "Interlocking"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg>),
-    },
-    {
-      key: "microbonding", title: "Microbonding", category: "Hair",
-      description: "Seamless extensions for natural-looking length and volume.",
-      highlights: ["Nano Tips", "I-Tip", "Maintenance"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>),
-    },
-    {
-      key: "nails", title: "Nails", category: "Beauty",
-      description: "Clean, detailed finishes from everyday sets to statement nail art.",
-      highlights: ["Gel", "Acrylic", "Nail Art"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" /></svg>),
-    },
-    {
-      key: "attire", title: "African Attire", category: "Fashion",
-      description: "Custom design and tailoring using authentic fabrics — made to fit.",
-      highlights: ["Design", "Sewing", "Alterations"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>),
-    },
-    {
-      key: "massage", title: "Massage", category: "Wellness",
-      description: "Relaxing treatments designed to relieve tension and support recovery.",
-      highlights: ["Deep Tissue", "Swedish", "Aromatherapy"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" /></svg>),
-    },
-    {
-      key: "makeup", title: "Makeup", category: "Beauty",
-      description: "Professional makeup for events, bridal and photoshoots — camera-ready.",
-      highlights: ["Bridal", "Everyday Glam", "Events"],
-      icon: (<svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42" /></svg>),
-    },
-  ];
+  const { settings } = useSiteSettings();
+  const services = getActiveServices(settings);
 
   const featured = services.filter((s) => s.featured);
   const standard = services.filter((s) => !s.featured);
@@ -504,7 +570,7 @@ function Services() {
         {/* Featured */}
         <div className="grid gap-5 lg:grid-cols-2 mb-6">
           {featured.map((s) => (
-            <div key={s.key} className="group relative overflow-hidden rounded-3xl bg-white border border-stone-200/80 hover:shadow-2xl hover:shadow-stone-200/50 transition-all duration-500">
+            <div key={s.key} id={`service-${s.key}`} className="group relative overflow-hidden rounded-3xl scroll-mt-28 bg-white border border-stone-200/80 hover:shadow-2xl hover:shadow-stone-200/50 transition-all duration-500">
               <div className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-500">
                 <div className="absolute -top-24 -right-24 w-72 h-72 rounded-full bg-amber-500/8 blur-3xl" />
               </div>
@@ -522,16 +588,16 @@ function Services() {
                 </div>
                 <p className="text-stone-500 mt-4 leading-relaxed">{s.description}</p>
                 <div className="mt-6 flex flex-wrap gap-2">
-                  {s.highlights.map((h) => (
+                  {s.highlights.filter((h) => h.trim()).map((h) => (
                     <span key={h} className="inline-flex items-center px-3 py-1.5 rounded-full text-[12px] text-stone-600 bg-stone-50 border border-stone-200/80">{h}</span>
                   ))}
                 </div>
                 <div className="mt-8 flex items-center gap-4">
-                  <a href="#contact" className="px-7 py-3 bg-stone-900 text-white text-[12px] tracking-[0.25em] uppercase font-medium hover:bg-stone-800 transition-colors rounded-full">Book Now</a>
-                  <a href="#contact" className="inline-flex items-center gap-2 text-[12px] tracking-[0.25em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors">
-                    Enquire
+                  <a href="#contact" data-service={s.key} className="px-7 py-3 bg-stone-900 text-white text-[12px] tracking-[0.25em] uppercase font-medium hover:bg-stone-800 transition-colors rounded-full">Book Now</a>
+                  <Link to={`/services/${s.key}`} className="inline-flex items-center gap-2 text-[12px] tracking-[0.25em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors">
+                    Details
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" /></svg>
-                  </a>
+                  </Link>
                 </div>
               </div>
             </div>
@@ -541,7 +607,7 @@ function Services() {
         {/* Standard */}
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-5">
           {standard.map((s) => (
-            <div key={s.key} className="group rounded-3xl bg-white border border-stone-200/80 hover:shadow-xl hover:shadow-stone-200/50 hover:-translate-y-0.5 transition-all duration-500">
+            <div key={s.key} id={`service-${s.key}`} className="group rounded-3xl scroll-mt-28 bg-white border border-stone-200/80 hover:shadow-xl hover:shadow-stone-200/50 hover:-translate-y-0.5 transition-all duration-500">
               <div className="p-7">
                 <div className="flex items-start justify-between gap-4">
                   <div>
@@ -549,7 +615,7 @@ function Services() {
                     <h3 className="text-xl font-serif text-stone-900 mt-2 group-hover:text-amber-800 transition-colors">{s.title}</h3>
                   </div>
                   <div className="w-11 h-11 rounded-2xl border border-stone-200 flex items-center justify-center text-stone-400 bg-stone-50 group-hover:bg-amber-600 group-hover:border-amber-600 group-hover:text-white transition-all duration-300">
-                    {s.icon}
+                    <ServiceIconSvg icon={s.icon} />
                   </div>
                 </div>
                 <div className="mt-4">
@@ -561,18 +627,21 @@ function Services() {
                 </div>
                 <p className="text-stone-500 text-sm leading-relaxed mt-4">{s.description}</p>
                 <ul className="mt-5 space-y-2">
-                  {s.highlights.map((item) => (
+                  {s.highlights.filter((h) => h.trim()).map((item) => (
                     <li key={item} className="flex items-center gap-2 text-sm text-stone-600">
                       <svg className="w-3.5 h-3.5 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
                       {item}
                     </li>
                   ))}
                 </ul>
-                <div className="mt-7">
-                  <a href="#contact" className="inline-flex items-center gap-2 text-[12px] tracking-[0.2em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors">
+                <div className="mt-7 flex items-center justify-between gap-4">
+                  <a href="#contact" data-service={s.key} className="inline-flex items-center gap-2 text-[12px] tracking-[0.2em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors">
                     Book Now
                     <svg className="w-4 h-4 group-hover:translate-x-0.5 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" /></svg>
                   </a>
+                  <Link to={`/services/${s.key}`} className="text-[12px] tracking-[0.2em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors">
+                    Details
+                  </Link>
                 </div>
               </div>
             </div>
@@ -583,25 +652,191 @@ function Services() {
   );
 }
 
+/* ─────────────────────────────────────────────
+   TEAM
+   ───────────────────────────────────────────── */
+/** "Mon – Sat" style summary of working days (Monday-first, like the hours list). */
+function formatWorkingDays(days: number[]) {
+  const ordered = WEEK_DISPLAY_ORDER.filter((d) => days.includes(d));
+  if (ordered.length === 0) return "";
+  const runs: number[][] = [];
+  ordered.forEach((d) => {
+    const last = runs[runs.length - 1];
+    const prev = last?.[last.length - 1];
+    if (last && WEEK_DISPLAY_ORDER.indexOf(d) === WEEK_DISPLAY_ORDER.indexOf(prev!) + 1) last.push(d);
+    else runs.push([d]);
+  });
+  return runs
+    .map((r) =>
+      r.length > 2
+        ? `${WEEKDAY_SHORT[r[0]]} – ${WEEKDAY_SHORT[r[r.length - 1]]}`
+        : r.map((d) => WEEKDAY_SHORT[d]).join(", ")
+    )
+    .join(", ");
+}
+
+function Team() {
+  const { settings } = useSiteSettings();
+  const team = getActiveTeam(settings);
+
+  if (!settings.team.enabled || team.length === 0) return null;
+
+  return (
+    <section id="team" className="py-24 bg-stone-50 bb-section">
+      <div className="bb-noise-overlay" />
+      <div className="max-w-7xl mx-auto px-6 lg:px-8 relative">
+        <div className="max-w-2xl mb-12 bb-reveal" style={{ "--bb-delay": "40ms" } as CSSProperties}>
+          <p className="text-amber-700 text-[13px] tracking-[0.35em] uppercase font-medium mb-4">Our Stylists</p>
+          <h2 className="text-4xl md:text-5xl font-serif text-stone-900 leading-tight">Meet the Team</h2>
+          <div className="w-12 h-[2px] bg-amber-600 mt-6 mb-6" />
+          <p className="text-stone-500 leading-relaxed">
+            The hands behind every look. Ask for your favourite stylist when you book.
+          </p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-5">
+          {team.map((m) => {
+            const services = m.services.map((key) => getServiceLabel(settings, key));
+            const days = formatWorkingDays(m.workingDays);
+            return (
+              <div
+                key={m.id}
+                className="group rounded-3xl overflow-hidden border border-stone-200 bg-white hover:shadow-xl hover:shadow-stone-200/50 transition-all duration-500"
+              >
+                <div className="relative aspect-[4/3] bg-stone-100">
+                  {m.photoUrl ? (
+                    <img
+                      src={m.photoUrl}
+                      alt={m.name}
+                      className="absolute inset-0 w-full h-full object-cover"
+                      loading="lazy"
+                      decoding="async"
+                    />
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <span className="font-serif text-5xl text-stone-300">{m.name.trim().charAt(0)}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="p-6">
+                  <h3 className="font-serif text-xl text-stone-900">{m.name}</h3>
+                  {m.title ? (
+                    <p className="text-[11px] uppercase tracking-[0.3em] text-amber-700 font-medium mt-1.5">{m.title}</p>
+                  ) : null}
+                  {m.bio.trim() ? (
+                    <p className="text-stone-500 text-sm leading-relaxed mt-4 whitespace-pre-wrap">{m.bio}</p>
+                  ) : null}
+                  <div className="mt-5 flex flex-wrap gap-2">
+                    {(services.length ? services : ["All services"]).map((label) => (
+                      <span
+                        key={label}
+                        className="inline-flex items-center px-3 py-1.5 rounded-full text-[12px] text-stone-600 bg-stone-50 border border-stone-200/80"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                  {days ? <p className="text-[12px] text-stone-400 mt-4">Works {days}</p> : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/* ─────────────────────────────────────────────
+   RESPONSIVE IMAGES
+   ───────────────────────────────────────────── */
+/**
+ * `<img>` that serves the AVIF/WebP variants of admin-uploaded images (with a
+ * blurred placeholder until loaded); other images render unchanged.
+ */
+function SiteImage({
+  src,
+  alt,
+  sizes,
+  className,
+  loading = "lazy",
+  onError,
+}: {
+  src: string;
+  alt: string;
+  /** `sizes` attribute for the variants, e.g. "(min-width: 768px) 33vw, 50vw". */
+  sizes: string;
+  className: string;
+  loading?: "lazy" | "eager";
+  onError?: () => void;
+}) {
+  const { settings } = useSiteSettings();
+  const responsive = getGalleryImageMeta(settings, src).responsive;
+  const [loaded, setLoaded] = useState(false);
+
+  if (!responsive) {
+    // Files from public/gallery carry their build-time dimensions.
+    const entry = getGalleryManifestEntry(src);
+    return (
+      <img
+        src={src}
+        alt={alt}
+        width={entry?.width || undefined}
+        height={entry?.height || undefined}
+        className={className}
+        loading={loading}
+        decoding="async"
+        onError={onError}
+      />
+    );
+  }
+
+  return (
+    <picture className="contents">
+      {(["avif", "webp"] as const).map((format) => {
+        const srcSet = buildSrcSet(responsive, format);
+        return srcSet ? <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img
+        src={src}
+        srcSet={buildSrcSet(responsive, "jpeg") || undefined}
+        sizes={sizes}
+        alt={alt}
+        width={responsive.width}
+        height={responsive.height}
+        className={className}
+        loading={loading}
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+        onError={onError}
+        style={
+          loaded
+            ? undefined
+            : { backgroundImage: `url(${responsive.placeholder})`, backgroundSize: "cover", backgroundPosition: "center" }
+        }
+      />
+    </picture>
+  );
+}
+
 /* ─────────────────────────────────────────────
    GALLERY
    ───────────────────────────────────────────── */
 function Specials() {
   const { settings } = useSiteSettings();
 
-  const items = useMemo(() => {
-    if (!settings.promotions?.enabled) return [];
-    const now = Date.now();
-    return (settings.promotions.items || [])
-      .filter((x) => {
-        if (!x) return false;
-        if (!x.title?.trim()) return false;
-        if (!x.validUntil) return true;
-        const t = new Date(x.validUntil).getTime();
-        return Number.isNaN(t) ? true : t >= now;
-      })
-      .slice(0, 12);
-  }, [settings.promotions]);
+  // Re-check every minute so time-of-day specials appear and drop off on schedule.
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const items = useMemo(
+    () => getLivePromotions(settings, now).slice(0, 12),
+    [settings.promotions, now]
+  );
+  const activeServices = getActiveServices(settings);
 
   return (
     <section id="specials" className="py-24 bg-white bb-section">
@@ -639,68 +874,84 @@ function Specials() {
           </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-5">
-            {items.map((p) => (
-              <div
-                key={p.id}
-                className="group rounded-3xl overflow-hidden border border-stone-200 bg-white hover:shadow-xl hover:shadow-stone-200/50 transition-all duration-500"
-              >
-                <div className="relative h-48 bg-stone-100">
-                  {p.imageUrl ? (
-                    <img
-                      src={p.imageUrl}
-                      alt={p.title}
-                      className="absolute inset-0 w-full h-full object-cover"
-                      loading="lazy"
-                      decoding="async"
-                    />
-                  ) : (
-                    <div className="absolute inset-0 flex items-center justify-center text-stone-400 text-sm">
-                      Add an image in Admin Settings
-                    </div>
-                  )}
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/35 via-transparent to-transparent" />
-                  {(p.badge || "").trim() ? (
-                    <span className="absolute top-4 left-4 inline-flex items-center px-3 py-1.5 rounded-full text-[11px] tracking-widest uppercase font-medium bg-white/85 text-stone-900 border border-white/60">
-                      {p.badge}
-                    </span>
-                  ) : null}
-                </div>
-
-                <div className="p-6">
-                  <h3 className="font-serif text-xl text-stone-900 group-hover:text-amber-800 transition-colors">
-                    {p.title}
-                  </h3>
-                  {p.description?.trim() ? (
-                    <p className="text-stone-500 text-sm leading-relaxed mt-3 whitespace-pre-wrap">
-                      {p.description}
-                    </p>
-                  ) : (
-                    <p className="text-stone-400 text-sm mt-3">Details coming soon.</p>
-                  )}
-
-                  <div className="mt-5 flex items-center justify-between gap-3">
-                    <a
-                      href="#contact"
-                      className="inline-flex items-center gap-2 text-[12px] tracking-[0.25em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors"
-                    >
-                      {(p.ctaText || "Book Now").trim()}
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
-                      </svg>
-                    </a>
-                    {p.validUntil ? (
-                      <span className="text-[11px] text-stone-400">
-                        Valid until {new Date(p.validUntil).toLocaleDateString("en-ZA", {
-                          month: "short",
-                          day: "2-digit",
-                          year: "numeric",
-                        })}
+            {items.map((p) => {
+              const schedule = describePromotionSchedule(p);
+              // The booking form starts on the first of the special's services still offered.
+              const bookService = p.services.find((key) => activeServices.some((s) => s.key === key)) ?? "";
+              return (
+                <div
+                  key={p.id}
+                  className="group rounded-3xl overflow-hidden border border-stone-200 bg-white hover:shadow-xl hover:shadow-stone-200/50 transition-all duration-500"
+                >
+                  <div className="relative h-48 bg-stone-100">
+                    {p.imageUrl ? (
+                      <SiteImage
+                        src={p.imageUrl}
+                        alt={p.title}
+                        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                        className="absolute inset-0 w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center text-stone-400 text-sm">
+                        Add an image in Admin Settings
+                      </div>
+                    )}
+                    <div className="absolute inset-0 bg-gradient-to-t from-black/35 via-transparent to-transparent" />
+                    {(p.badge || "").trim() ? (
+                      <span className="absolute top-4 left-4 inline-flex items-center px-3 py-1.5 rounded-full text-[11px] tracking-widest uppercase font-medium bg-white/85 text-stone-900 border border-white/60">
+                        {p.badge}
                       </span>
                     ) : null}
                   </div>
+
+                  <div className="p-6">
+                    <h3 className="font-serif text-xl text-stone-900 group-hover:text-amber-800 transition-colors">
+                      {p.title}
+                    </h3>
+                    {p.description?.trim() ? (
+                      <p className="text-stone-500 text-sm leading-relaxed mt-3 whitespace-pre-wrap">
+                        {p.description}
+                      </p>
+                    ) : (
+                      <p className="text-stone-400 text-sm mt-3">Details coming soon.</p>
+                    )}
+                    {p.code ? (
+                      <p className="mt-4 inline-flex items-center gap-2 px-3 py-1.5 rounded-full border border-dashed border-amber-300 bg-amber-50 text-[12px] text-amber-800">
+                        Use code <span className="font-mono tracking-widest font-medium">{p.code}</span>
+                        {formatDiscount(p.discount) ? ` · ${formatDiscount(p.discount)}` : ""}
+                      </p>
+                    ) : null}
+
+                    <div className="mt-5 flex items-center justify-between gap-3">
+                      <a
+                        href="#contact"
+                        data-service={bookService || undefined}
+                        data-promotion={p.id}
+                        className="inline-flex items-center gap-2 text-[12px] tracking-[0.25em] uppercase font-medium text-stone-400 hover:text-amber-700 transition-colors"
+                      >
+                        {(p.ctaText || "Book Now").trim()}
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
+                        </svg>
+                      </a>
+                      {schedule || p.validUntil ? (
+                        <span className="text-[11px] text-stone-400 text-right">
+                          {schedule}
+                          {schedule && p.validUntil ? <br /> : null}
+                          {p.validUntil
+                            ? `Valid until ${new Date(`${p.validUntil}T00:00:00`).toLocaleDateString("en-ZA", {
+                                month: "short",
+                                day: "2-digit",
+                                year: "numeric",
+                              })}`
+                            : null}
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -712,9 +963,18 @@ function Specials() {
    GALLERY
    ───────────────────────────────────────────── */
 function Gallery() {
-  const { settings } = useSiteSettings();
+  const { settings, loading } = useSiteSettings();
+  const { hash } = useLocation();
+
+  const categories = getGalleryCategories(settings);
+  const [category, setCategory] = useState("all");
+  const activeCategory = categories.find((c) => c.key === category) ?? null;
 
-  const allImages = buildGalleryImageList(settings);
+  // Filter chips narrow the grid (and so the lightbox) to images tagged with one service.
+  const galleryImages = buildGalleryImageList(settings);
+  const allImages = galleryImages.filter(
+    (src) => !activeCategory || getGalleryImageMeta(settings, src).services.includes(activeCategory.key)
+  );
   const totalImages = allImages.length;
   const pageSize = settings.gallery.pageSize ?? 12;
   const initialCount = settings.gallery.initialCount ?? 11;
@@ -722,13 +982,10 @@ function Gallery() {
   const [visibleCount, setVisibleCount] = useState(initialCount);
   const [failed, setFailed] = useState<string[]>([]);
 
-  const [lightboxOpen, setLightboxOpen] = useState(false);
-  const [lightboxIndex, setLightboxIndex] = useState(0);
-
   // Gallery tile fit is controlled by admin settings only.
   const effectiveFit = settings.gallery.tileFit ?? "cover";
 
-  useEffect(() => { setVisibleCount(initialCount); }, [initialCount, settings.gallery.mode]);
+  useEffect(() => { setVisibleCount(initialCount); }, [initialCount, settings.gallery.mode, category]);
   useEffect(() => { setFailed([]); }, [settings.gallery.mode, settings.gallery.numbered.end, settings.gallery.customImages.length]);
 
   const rawVisible = allImages.slice(0, visibleCount);
@@ -781,7 +1038,9 @@ function Gallery() {
     const v = typeof settings.gallery.assetVersion === "number" ? settings.gallery.assetVersion : 1;
     const isInternal = url.startsWith("/gallery/") || url.startsWith(folder + "/");
 
-    if (isInternal) {
+    if (isInternal && getGalleryManifestEntry(url)) {
+      url = versionedAssetUrl(url.split("?")[0], v);
+    } else if (isInternal) {
       if (/[?&]v=\d+/.test(url)) {
         url = url.replace(/([?&]v=)\d+/, `$1${v}`);
       } else {
@@ -816,45 +1075,47 @@ function Gallery() {
     "col-span-6 md:col-span-4 row-span-1",
   ];
 
-  const [lightboxItems, setLightboxItems] = useState<string[]>([]);
-
-  const openLightbox = (list: string[], index: number) => {
-    setLightboxItems(list);
-    setLightboxIndex(index);
-    setLightboxOpen(true);
-  };
-  const closeLightbox = () => setLightboxOpen(false);
+  const [lightbox, setLightbox] = useState<LightboxState | null>(null);
 
-  const next = () => {
-    setLightboxIndex((i) =>
-      lightboxItems.length ? (i + 1) % lightboxItems.length : 0
-    );
-  };
-  const prev = () => {
-    setLightboxIndex((i) =>
-      lightboxItems.length
-        ? (i - 1 + lightboxItems.length) % lightboxItems.length
-        : 0
-    );
-  };
+  // Each item's deep link is its position in the unfiltered list ("gallery/12"),
+  // so a link shared from a filtered view still opens the same photo.
+  const openLightbox = (list: string[], index: number, label = "") =>
+    setLightbox({
+      items: list,
+      links: list.map((src) => `gallery/${galleryImages.indexOf(src) + 1}`),
+      index,
+      label,
+    });
+  const openNailsLightbox = (list: string[], index: number) =>
+    setLightbox({
+      items: list,
+      links: list.map((src) => `gallery/nails/${nailsAll.indexOf(src) + 1}`),
+      index,
+      label: featuredNails?.title || "Nails Designs",
+    });
 
+  // "#gallery/12" / "#gallery/nails/3" (on load or from a link) reopens that item.
   useEffect(() => {
-    if (!lightboxOpen) return;
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Escape") closeLightbox();
-      if (e.key === "ArrowRight") next();
-      if (e.key === "ArrowLeft") prev();
-    };
-    document.addEventListener("keydown", onKeyDown);
-    const prevOverflow = document.body.style.overflow;
-    document.body.style.overflow = "hidden";
-    return () => {
-      document.removeEventListener("keydown", onKeyDown);
-      document.body.style.overflow = prevOverflow;
-    };
-  }, [lightboxOpen, lightboxItems.length]);
-
-  const lightboxSrc = lightboxItems[lightboxIndex];
+    const match = /^#gallery\/(?:(nails)\/)?(\d+)$/.exec(hash);
+    if (loading || !match) return;
+    const list = match[1] ? nailsAll : galleryImages;
+    const src = list[Number(match[2]) - 1];
+    if (!src) return;
+    const items = list.filter((x) => x === src || !failed.includes(x));
+    if (match[1]) openNailsLightbox(items, items.indexOf(src));
+    else openLightbox(items, items.indexOf(src));
+  }, [hash, loading]);
+
+  // Keep the address bar on the open item without adding history entries
+  // (and leave other hashes like "#team" alone until the lightbox opens).
+  const lightboxLink = lightbox ? lightbox.links[lightbox.index] : "";
+  const linkedRef = useRef(false);
+  useEffect(() => {
+    if (!lightboxLink && !linkedRef.current) return;
+    linkedRef.current = Boolean(lightboxLink);
+    const { pathname, search } = window.location;
+    window.history.replaceState(window.history.state, "", pathname + search + (lightboxLink ? `#${lightboxLink}` : ""));
+  }, [lightboxLink]);
 
   return (
     <section id="gallery" className="py-28 bg-gradient-to-b from-white via-stone-50 to-white bb-section">
@@ -878,65 +1139,115 @@ function Gallery() {
           </div>
         </div>
 
+        {/* Category filter */}
+        {categories.length > 0 ? (
+          <div className="flex flex-wrap gap-2 mb-8" role="group" aria-label="Filter gallery by service">
+            {[{ key: "all", title: "All" }, ...categories].map((c) => {
+              const selected = (activeCategory?.key ?? "all") === c.key;
+              return (
+                <button
+                  key={c.key}
+                  type="button"
+                  onClick={() => setCategory(c.key)}
+                  aria-pressed={selected}
+                  className={
+                    "px-4 py-2 rounded-full border text-[12px] tracking-[0.15em] uppercase font-medium transition-colors " +
+                    (selected
+                      ? "bg-stone-900 border-stone-900 text-white"
+                      : "bg-white border-stone-200 text-stone-500 hover:text-stone-900 hover:border-stone-300")
+                  }
+                >
+                  {c.title}
+                </button>
+              );
+            })}
+          </div>
+        ) : null}
+
         {/* Image grid */}
         <div className="grid grid-cols-12 gap-2.5 md:gap-3 auto-rows-[110px] sm:auto-rows-[130px] md:auto-rows-[150px] lg:auto-rows-[170px]" style={{ gridAutoFlow: "dense" }}>
-          {images.map((src, index) => (
-            <button
-              key={src}
-              type="button"
-              onClick={() => openLightbox(images, index)}
-              data-gallery-tile
-              className={
-                mosaic[index % mosaic.length] +
-                " relative overflow-hidden rounded-2xl bg-stone-100 border border-stone-100 hover:shadow-xl transition-all duration-500 focus:outline-none group"
-              }
-              aria-label={`Open gallery image ${index + 1}`}
-            >
-              {effectiveFit === "contain" ? (
-                <div className="absolute inset-0 flex items-center justify-center bg-white">
-                  <img
+          {images.map((src, index) => {
+            const meta = getGalleryImageMeta(settings, src);
+            const video = isVideoUrl(src);
+            const alt = meta.alt.trim() || meta.caption.trim() || `Berly Beauty work ${index + 1}`;
+            // Mosaic tiles span 6 of 12 columns on phones and 4 or 8 from md up.
+            const tileSizes = mosaic[index % mosaic.length].includes("md:col-span-8")
+              ? "(min-width: 1280px) 850px, (min-width: 768px) 66vw, 50vw"
+              : "(min-width: 1280px) 420px, (min-width: 768px) 33vw, 50vw";
+            return (
+              <button
+                key={src}
+                type="button"
+                onClick={() => openLightbox(images, index, activeCategory?.title)}
+                data-gallery-tile
+                className={
+                  mosaic[index % mosaic.length] +
+                  " relative overflow-hidden rounded-2xl bg-stone-100 border border-stone-100 hover:shadow-xl transition-all duration-500 focus:outline-none group"
+                }
+                aria-label={`Open ${meta.caption.trim() || `gallery ${video ? "video" : "image"} ${index + 1}`}`}
+              >
+                {video ? (
+                  <GalleryVideoPreview
                     src={src}
-                    alt={`Berly Beauty work ${index + 1}`}
-                    loading="lazy"
-                    decoding="async"
-                    className="max-w-full max-h-full object-contain"
+                    poster={meta.poster}
+                    autoplay={settings.gallery.videoAutoplay}
+                    className={
+                      "absolute inset-0 w-full h-full " +
+                      (effectiveFit === "contain" ? "object-contain bg-white" : "object-cover")
+                    }
                     onError={() =>
                       setFailed((prev) => (prev.includes(src) ? prev : [...prev, src]))
                     }
                   />
-                </div>
-              ) : (
-                <img
-                  src={src}
-                  alt={`Berly Beauty work ${index + 1}`}
-                  loading="lazy"
-                  decoding="async"
-                  className="absolute inset-0 w-full h-full object-cover transition-transform duration-700 ease-out group-hover:scale-105"
-                  onError={() =>
-                    setFailed((prev) => (prev.includes(src) ? prev : [...prev, src]))
-                  }
-                />
-              )}
-              <div className="absolute inset-0 bg-gradient-to-t from-black/40 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-400" />
-              <div className="absolute bottom-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity duration-400">
-                <span className="w-9 h-9 rounded-full bg-white/20 backdrop-blur-sm border border-white/30 flex items-center justify-center">
-                  <svg
-                    className="w-4 h-4 text-white"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7"
+                ) : effectiveFit === "contain" ? (
+                  <div className="absolute inset-0 flex items-center justify-center bg-white">
+                    <SiteImage
+                      src={src}
+                      alt={alt}
+                      sizes={tileSizes}
+                      className="max-w-full max-h-full object-contain"
+                      onError={() =>
+                        setFailed((prev) => (prev.includes(src) ? prev : [...prev, src]))
+                      }
                     />
-                  </svg>
-                </span>
-              </div>
-            </button>
-          ))}
+                  </div>
+                ) : (
+                  <SiteImage
+                    src={src}
+                    alt={alt}
+                    sizes={tileSizes}
+                    className="absolute inset-0 w-full h-full object-cover transition-transform duration-700 ease-out group-hover:scale-105"
+                    onError={() =>
+                      setFailed((prev) => (prev.includes(src) ? prev : [...prev, src]))
+                    }
+                  />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black/40 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-400" />
+                {/* Videos always show their play badge; photos get the zoom badge on hover. */}
+                <div className={"absolute bottom-3 right-3 transition-opacity duration-400 " + (video ? "" : "opacity-0 group-hover:opacity-100")}>
+                  <span className="w-9 h-9 rounded-full bg-white/20 backdrop-blur-sm border border-white/30 flex items-center justify-center">
+                    <svg
+                      className="w-4 h-4 text-white"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d={
+                          video
+                            ? "M8 5.5v13l10.5-6.5L8 5.5z"
+                            : "M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7"
+                        }
+                      />
+                    </svg>
+                  </span>
+                </div>
+              </button>
+            );
+          })}
         </div>
 
         {/* Featured nails designs */}
@@ -971,18 +1282,17 @@ function Gallery() {
                   <button
                     key={`${src}_${idx}`}
                     type="button"
-                    onClick={() => openLightbox(nailsImages, idx)}
+                    onClick={() => openNailsLightbox(nailsImages, idx)}
                     className="relative overflow-hidden rounded-2xl border border-stone-100 bg-stone-100 aspect-square group focus:outline-none hover:shadow-xl transition-all"
                     aria-label={`Open nails design ${idx + 1}`}
                   >
                     {effectiveFit === "contain" ? (
                       <div className="absolute inset-0 flex items-center justify-center bg-white">
-                        <img
+                        <SiteImage
                           src={src}
                           alt={`Nails design ${idx + 1}`}
+                          sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
                           className="max-w-full max-h-full object-contain"
-                          loading="lazy"
-                          decoding="async"
                           onError={() =>
                             setNailsFailed((prev) =>
                               prev.includes(src) ? prev : [...prev, src]
@@ -991,12 +1301,11 @@ function Gallery() {
                         />
                       </div>
                     ) : (
-                      <img
+                      <SiteImage
                         src={src}
                         alt={`Nails design ${idx + 1}`}
+                        sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
                         className="absolute inset-0 w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-                        loading="lazy"
-                        decoding="async"
                         onError={() =>
                           setNailsFailed((prev) =>
                             prev.includes(src) ? prev : [...prev, src]
@@ -1040,69 +1349,428 @@ function Gallery() {
           </a>
         </div>
 
-        {/* Lightbox */}
-        {lightboxOpen && lightboxSrc ? (
-          <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4"
-            role="dialog" aria-modal="true" aria-label="Image viewer"
-            onMouseDown={(e) => { if (e.target === e.currentTarget) closeLightbox(); }}>
-            <div className="relative w-full max-w-5xl">
-              <div className="absolute -top-12 left-0 right-0 flex items-center justify-between text-white/70 text-[12px] tracking-widest uppercase">
-                <span>{lightboxIndex + 1} / {lightboxItems.length}</span>
-                <button type="button" onClick={closeLightbox} className="px-3 py-2 text-white/70 hover:text-white transition-colors">Close</button>
-              </div>
-              <div className="relative overflow-hidden rounded-2xl bg-black border border-white/10">
-                <img src={lightboxSrc} alt="Selected work" className="w-full max-h-[80vh] object-contain bg-black" />
-                <button type="button" onClick={prev} className="absolute left-3 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 text-white flex items-center justify-center transition-colors" aria-label="Previous">
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
-                </button>
-                <button type="button" onClick={next} className="absolute right-3 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 text-white flex items-center justify-center transition-colors" aria-label="Next">
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
-                </button>
-              </div>
-              <div className="mt-4" />
-            </div>
-          </div>
+        {lightbox ? (
+          <GalleryLightbox
+            items={lightbox.items}
+            index={lightbox.index}
+            label={lightbox.label}
+            onIndexChange={(index) => setLightbox((lb) => (lb ? { ...lb, index } : lb))}
+            onClose={() => setLightbox(null)}
+          />
         ) : null}
       </div>
     </section>
   );
 }
 
+/**
+ * Muted, looping gallery clip that plays only while at least half of it is on
+ * screen (if `autoplay` is on and the visitor hasn't asked for reduced
+ * motion); otherwise it shows its poster. The lightbox plays it with sound.
+ */
+function GalleryVideoPreview({
+  src,
+  poster,
+  autoplay,
+  className,
+  onError,
+}: {
+  src: string;
+  poster?: string;
+  autoplay: boolean;
+  className: string;
+  onError?: () => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !autoplay || window.matchMedia("(prefers-reduced-motion: reduce)").matches) return;
+    const io = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          // Rejected when the browser blocks autoplay (e.g. battery saver); the poster stays.
+          video.play().catch(() => {});
+        } else {
+          video.pause();
+        }
+      },
+      { threshold: 0.5 }
+    );
+    io.observe(video);
+    return () => {
+      io.disconnect();
+      video.pause();
+    };
+  }, [src, autoplay]);
+
+  return (
+    <video
+      ref={videoRef}
+      // Without a poster, "#t=0.1" makes mobile Safari paint a frame instead of a blank box.
+      src={poster ? src : `${src}#t=0.1`}
+      poster={poster}
+      muted
+      loop
+      playsInline
+      preload={poster ? "none" : "metadata"}
+      className={className}
+      onError={onError}
+      aria-hidden="true"
+    />
+  );
+}
+
 /* ─────────────────────────────────────────────
-   REVIEWS
+   GALLERY LIGHTBOX
    ───────────────────────────────────────────── */
-interface Review { id: string; name: string; service: string; rating: number; text: string; date: string; }
-
-function Reviews() {
-  const [reviews, setReviews] = useState<Review[]>([]);
+interface LightboxState {
+  items: string[];
+  /** Deep link per item, without the "#", e.g. "gallery/12". */
+  links: string[];
+  index: number;
+  label: string;
+}
 
-  useEffect(() => {
-    const unsubscribe = subscribeReviews((firestoreReviews: FirestoreReview[]) => {
-      setReviews(
-        firestoreReviews.map((r) => ({
-          id: r.id || String(Date.now()),
+const MAX_ZOOM = 4;
+const SWIPE_THRESHOLD = 60;
+const DOUBLE_TAP_MS = 300;
+const IDENTITY_VIEW = { scale: 1, x: 0, y: 0 };
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Full-screen viewer for gallery photos and MP4/WebM clips: swipe or arrow
+ * keys to move between items, pinch / double-tap / wheel to zoom photos, and
+ * focus stays inside the dialog until it closes.
+ */
+function GalleryLightbox({
+  items,
+  index,
+  label,
+  onIndexChange,
+  onClose,
+}: {
+  items: string[];
+  index: number;
+  label: string;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const { settings } = useSiteSettings();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  const [view, setView] = useState(IDENTITY_VIEW);
+  const [dragX, setDragX] = useState(0);
+  const [interacting, setInteracting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{
+    mode: "swipe" | "pan" | "pinch";
+    startX: number;
+    startY: number;
+    startDist: number;
+    base: typeof IDENTITY_VIEW;
+    moved: boolean;
+  } | null>(null);
+  const lastTap = useRef(0);
+
+  const count = items.length;
+  const src = items[index];
+  const video = isVideoUrl(src);
+  const meta = getGalleryImageMeta(settings, src);
+  const zoomed = view.scale > 1;
+
+  const go = (step: number) => count > 1 && onIndexChange((index + step + count) % count);
+
+  // Keep a zoomed photo from being dragged off the stage.
+  const clampView = (next: typeof IDENTITY_VIEW) => {
+    const scale = Math.min(MAX_ZOOM, Math.max(1, next.scale));
+    if (scale === 1) return IDENTITY_VIEW;
+    const rect = stageRef.current?.getBoundingClientRect();
+    const maxX = rect ? ((scale - 1) * rect.width) / 2 : 0;
+    const maxY = rect ? ((scale - 1) * rect.height) / 2 : 0;
+    return {
+      scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  };
+  const zoomBy = (factor: number) => setView((v) => clampView({ ...v, scale: v.scale * factor }));
+
+  useEffect(() => {
+    setView(IDENTITY_VIEW);
+    setDragX(0);
+    setCopied(false);
+  }, [index, src]);
+
+  // Focus the dialog while open and hand focus back to the tile afterwards.
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const prevOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prevOverflow;
+      previous?.focus?.();
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Arrow keys seek inside a focused video instead of changing item.
+      const inVideo = e.target instanceof HTMLVideoElement;
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowRight" && !inVideo) go(1);
+      else if (e.key === "ArrowLeft" && !inVideo) go(-1);
+      else if ((e.key === "+" || e.key === "=") && !video) zoomBy(1.5);
+      else if (e.key === "-" && !video) zoomBy(1 / 1.5);
+      else if (e.key === "0" && !video) setView(IDENTITY_VIEW);
+      else if (e.key === "Tab") {
+        const focusable = Array.from(
+          dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []
+        );
+        if (!focusable.length) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const active = document.activeElement;
+        if (e.shiftKey && (active === first || !dialogRef.current?.contains(active))) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (active === last || !dialogRef.current?.contains(active))) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [index, count, video, onClose]);
+
+  const distance = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y) || 1;
+  };
+
+  const startGesture = (x: number, y: number) => {
+    gesture.current =
+      pointers.current.size >= 2
+        ? { mode: "pinch", startX: x, startY: y, startDist: distance(), base: view, moved: true }
+        : { mode: zoomed ? "pan" : "swipe", startX: x, startY: y, startDist: 1, base: view, moved: false };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setInteracting(true);
+    startGesture(e.clientX, e.clientY);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const g = gesture.current;
+    if (!g || !pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const dx = e.clientX - g.startX;
+    const dy = e.clientY - g.startY;
+    if (Math.hypot(dx, dy) > 8) g.moved = true;
+
+    if (g.mode === "pinch" && pointers.current.size >= 2) {
+      setView(clampView({ ...g.base, scale: (g.base.scale * distance()) / g.startDist }));
+    } else if (g.mode === "pan") {
+      setView(clampView({ scale: g.base.scale, x: g.base.x + dx, y: g.base.y + dy }));
+    } else if (g.mode === "swipe" && Math.abs(dx) > Math.abs(dy)) {
+      setDragX(dx);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const g = gesture.current;
+    pointers.current.delete(e.pointerId);
+    if (!g) return;
+
+    if (pointers.current.size > 0) {
+      // Lifting one finger of a pinch carries on as a pan from the other one.
+      const [rest] = Array.from(pointers.current.values());
+      startGesture(rest.x, rest.y);
+      return;
+    }
+    gesture.current = null;
+    setInteracting(false);
+    setDragX(0);
+
+    const dx = e.clientX - g.startX;
+    const dy = e.clientY - g.startY;
+    if (g.mode === "swipe" && Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      go(dx < 0 ? 1 : -1);
+      return;
+    }
+    if (!g.moved && e.type === "pointerup") {
+      const now = Date.now();
+      if (now - lastTap.current < DOUBLE_TAP_MS) {
+        lastTap.current = 0;
+        setView(zoomed ? IDENTITY_VIEW : clampView({ scale: 2.5, x: 0, y: 0 }));
+      } else {
+        lastTap.current = now;
+      }
+    }
+  };
+
+  const share = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ url, title: meta.caption.trim() || "Berly Beauty" });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+      }
+    } catch {
+      // Share sheet dismissed or clipboard blocked.
+    }
+  };
+
+  const neighbours = count > 1 ? Array.from(new Set([items[(index + 1) % count], items[(index - 1 + count) % count]])) : [];
+  const headerButton = "px-3 py-2 text-white/70 hover:text-white transition-colors";
+
+  return (
+    <div
+      ref={dialogRef}
+      className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Gallery viewer"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="relative w-full max-w-5xl">
+        <div className="absolute -top-12 left-0 right-0 flex items-center justify-between text-white/70 text-[12px] tracking-widest uppercase">
+          <span aria-live="polite">
+            {label ? `${label} · ` : ""}
+            {index + 1} / {count}
+          </span>
+          <div className="flex items-center">
+            {!video ? (
+              <button type="button" onClick={() => (zoomed ? setView(IDENTITY_VIEW) : zoomBy(2.5))} className={headerButton} aria-pressed={zoomed}>
+                {zoomed ? "Reset zoom" : "Zoom"}
+              </button>
+            ) : null}
+            <button type="button" onClick={share} className={headerButton}>
+              {copied ? "Link copied" : "Share"}
+            </button>
+            <button ref={closeRef} type="button" onClick={onClose} className={headerButton}>Close</button>
+          </div>
+        </div>
+        <div className="relative overflow-hidden rounded-2xl bg-black border border-white/10">
+          {video ? (
+            <video
+              key={src}
+              src={src}
+              poster={meta.poster}
+              controls
+              autoPlay
+              playsInline
+              className="w-full max-h-[80vh] bg-black"
+              aria-label={meta.alt.trim() || meta.caption.trim() || "Selected work"}
+            />
+          ) : (
+            <div
+              ref={stageRef}
+              className={"select-none " + (zoomed ? "cursor-grab" : "cursor-zoom-in")}
+              style={{ touchAction: "none" }}
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerUp}
+              onWheel={(e) => zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15)}
+              onDragStart={(e) => e.preventDefault()}
+            >
+              <div
+                style={{
+                  transform: `translate(${view.x + dragX}px, ${view.y}px) scale(${view.scale})`,
+                  transition: interacting ? "none" : "transform 200ms ease-out",
+                }}
+              >
+                <SiteImage
+                  key={src}
+                  src={src}
+                  alt={meta.alt.trim() || meta.caption.trim() || "Selected work"}
+                  sizes="(min-width: 1024px) 1024px, 100vw"
+                  className="w-full max-h-[80vh] object-contain bg-black"
+                  loading="eager"
+                />
+              </div>
+            </div>
+          )}
+          {count > 1 ? (
+            <>
+              <button type="button" onClick={() => go(-1)} className="absolute left-3 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 text-white flex items-center justify-center transition-colors" aria-label="Previous">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+              </button>
+              <button type="button" onClick={() => go(1)} className="absolute right-3 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 text-white flex items-center justify-center transition-colors" aria-label="Next">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+              </button>
+            </>
+          ) : null}
+        </div>
+        {meta.caption.trim() ? (
+          <p className="mt-4 text-center text-white/80 text-sm">{meta.caption}</p>
+        ) : (
+          <div className="mt-4" />
+        )}
+        {/* Warm the cache for the photos either side (same sizes, so the same variant). */}
+        <div className="hidden" aria-hidden="true">
+          {neighbours
+            .filter((n) => !isVideoUrl(n))
+            .map((n) => (
+              <SiteImage key={n} src={n} alt="" sizes="(min-width: 1024px) 1024px, 100vw" className="" loading="eager" />
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ─────────────────────────────────────────────
+   REVIEWS
+   ───────────────────────────────────────────── */
+interface Review {
+  id: string;
+  name: string;
+  service: string;
+  rating: number;
+  text: string;
+  date: string;
+  reply?: FirestoreReview["reply"];
+}
+
+function Reviews() {
+  const [reviews, setReviews] = useState<Review[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeReviews((firestoreReviews: FirestoreReview[]) => {
+      setReviews(
+        firestoreReviews.map((r) => ({
+          id: r.id || String(Date.now()),
           name: r.name,
           service: r.service,
           rating: r.rating,
           text: r.text,
           date: r.date,
+          reply: r.reply,
         }))
       );
     });
     return () => unsubscribe();
   }, []);
 
-  const serviceOptions = [
-    "Premium Wigs",
-    "Braids",
-    "Bohemia Braids",
-    "Locs",
-    "Microbonding",
-    "Nails",
-    "African Attire",
-    "Massage",
-    "Makeup",
-  ];
+  const { settings } = useSiteSettings();
+  const serviceOptions = useMemo(
+    () => getActiveServices(settings).map((s) => s.title),
+    [settings.services]
+  );
 
   // Filters & sorting
   const [serviceFilter, setServiceFilter] = useState<string>("all");
@@ -1170,7 +1838,7 @@ function Reviews() {
   const [hoveredRating, setHoveredRating] = useState(0);
   const [formError, setFormError] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const MAX_REVIEW_LEN = 500;
+  const MAX_REVIEW_LEN = REVIEW_LIMITS.text;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -1183,32 +1851,30 @@ function Reviews() {
     const service = formData.service.trim();
     const text = formData.text.trim();
 
-    if (name.length < 2) {
+    if (name.length < REVIEW_LIMITS.nameMin || name.length > REVIEW_LIMITS.name) {
       setFormError("Please enter your name.");
       return;
     }
-    if (!service) {
+    if (!service || service.length > REVIEW_LIMITS.service) {
       setFormError("Please select a service.");
       return;
     }
-    if (text.length < 10) {
-      setFormError("Please write a short review (at least 10 characters).");
+    if (text.length < REVIEW_LIMITS.textMin) {
+      setFormError(`Please write a short review (at least ${REVIEW_LIMITS.textMin} characters).`);
+      return;
+    }
+    if (!Number.isInteger(formData.rating) || formData.rating < 1 || formData.rating > 5) {
+      setFormError("Please choose a rating.");
       return;
     }
 
     setIsSubmitting(true);
-    const id = await addReviewToFirestore({
-      name,
-      service,
-      rating: formData.rating,
-      text: text.slice(0, MAX_REVIEW_LEN),
-      date: new Date().toISOString(),
-    });
-
+    const review = { name, service, rating: formData.rating, text: text.slice(0, MAX_REVIEW_LEN) };
+    const result = await submitReview({ ...review, website: formData.website });
     setIsSubmitting(false);
 
-    if (!id) {
-      setFormError("Could not submit your review right now. Please try again.");
+    if (!result.ok) {
+      setFormError(result.message);
       return;
     }
 
@@ -1270,7 +1936,7 @@ function Reviews() {
             <div className="bg-stone-800/60 backdrop-blur-sm rounded-3xl p-8 border border-stone-700/50 sticky top-28">
               <h3 className="text-xl font-serif mb-2">Leave a Review</h3>
               <p className="text-stone-400 text-sm mb-6">
-                Your review will appear publicly once submitted.
+                Reviews are published once they have been approved.
               </p>
 
               {submitted && (
@@ -1288,7 +1954,7 @@ function Reviews() {
                       d="M5 13l4 4L19 7"
                     />
                   </svg>
-                  Thank you. Your review has been submitted.
+                  Thank you. Your review will appear once it has been approved.
                 </div>
               )}
 
@@ -1318,6 +1984,7 @@ function Reviews() {
                   <input
                     type="text"
                     required
+                    maxLength={REVIEW_LIMITS.name}
                     value={formData.name}
                     onChange={(e) =>
                       setFormData({ ...formData, name: e.target.value })
@@ -1572,6 +2239,22 @@ function Reviews() {
                             </button>
                           </div>
                         )}
+
+                        {review.reply?.text ? (
+                          <div className="mt-4 pl-4 border-l-2 border-amber-500/40">
+                            <div className="flex items-center justify-between gap-3 mb-1.5">
+                              <p className="text-[11px] tracking-[0.25em] uppercase text-amber-400/80 font-medium">
+                                Response from Berly Beauty
+                              </p>
+                              <span className="text-[11px] text-stone-500">
+                                {formatDate(review.reply.date)}
+                              </span>
+                            </div>
+                            <p className="text-stone-300 leading-relaxed text-sm whitespace-pre-wrap">
+                              {review.reply.text}
+                            </p>
+                          </div>
+                        ) : null}
                       </div>
                     );
                   })}
@@ -1602,6 +2285,7 @@ function Reviews() {
    ───────────────────────────────────────────── */
 function Contact() {
   const { settings } = useSiteSettings();
+  const upcomingClosures = getUpcomingClosedDates(settings.hours).slice(0, 3);
 
   const contactItems = [
     {
@@ -1635,7 +2319,26 @@ function Contact() {
     {
       title: "Hours",
       icon: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />,
-      content: <p className="text-stone-500">{settings.contact.hours}</p>,
+      content: (
+        <div className="text-stone-500 space-y-0.5">
+          {formatWeeklyHours(settings.hours).map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+          {upcomingClosures.length > 0 ? (
+            <p className="pt-2 text-[13px] text-stone-400">
+              Closed{" "}
+              {upcomingClosures
+                .map((c) =>
+                  `${new Date(`${c.date}T00:00:00`).toLocaleDateString("en-ZA", {
+                    day: "numeric",
+                    month: "short",
+                  })}${c.label ? ` (${c.label})` : ""}`
+                )
+                .join(", ")}
+            </p>
+          ) : null}
+        </div>
+      ),
     },
   ];
 
@@ -1678,7 +2381,7 @@ function Contact() {
 /* ─────────────────────────────────────────────
    FOOTER
    ───────────────────────────────────────────── */
-function Footer({ onNavigate }: { onNavigate?: (page: Page) => void }) {
+function Footer() {
   const { settings } = useSiteSettings();
   const currentYear = new Date().getFullYear();
 
@@ -1739,9 +2442,7 @@ function Footer({ onNavigate }: { onNavigate?: (page: Page) => void }) {
           <div />
           <p className="text-center">© {currentYear} Berly Beauty. All rights reserved.</p>
           <div className="flex justify-end">
-            {onNavigate && (
-              <button onClick={() => onNavigate("admin-login")} className="text-stone-600 hover:text-stone-300 transition-colors text-[12px]">Admin</button>
-            )}
+            <Link to="/admin/login" className="text-stone-600 hover:text-stone-300 transition-colors text-[12px]">Admin</Link>
           </div>
         </div>
       </div>
@@ -1752,8 +2453,12 @@ function Footer({ onNavigate }: { onNavigate?: (page: Page) => void }) {
 /* ─────────────────────────────────────────────
    ADMIN LOGIN
    ───────────────────────────────────────────── */
-function AdminLogin({ onNavigate }: { onNavigate: (page: Page) => void }) {
-  const { login } = useAuth();
+function AdminLogin() {
+  const { login, isAuthenticated, authChecked } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Where the guard bounced us from, so sign-in returns to the same tab.
+  const from = (location.state as { from?: string } | null)?.from || "/admin";
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
@@ -1764,11 +2469,14 @@ function AdminLogin({ onNavigate }: { onNavigate: (page: Page) => void }) {
     setError("");
     setIsLoading(true);
     const result = await login(email, password);
-    if (result.ok) { onNavigate("admin-dashboard"); }
-    else { setError(result.message || "Invalid email or password"); }
+    if (result.ok) { navigate(from, { replace: true }); return; }
+    setError(result.message || "Invalid email or password");
     setIsLoading(false);
   };
 
+  if (!authChecked) return <AuthLoading />;
+  if (isAuthenticated) return <Navigate to={from} replace />;
+
   return (
     <div className="min-h-screen bg-stone-950 flex items-center justify-center px-6">
       <div className="w-full max-w-md">
@@ -1807,7 +2515,7 @@ function AdminLogin({ onNavigate }: { onNavigate: (page: Page) => void }) {
           </form>
 
           <div className="mt-6 pt-6 border-t border-stone-800">
-            <button onClick={() => onNavigate("home")}
+            <button onClick={() => navigate("/")}
               className="w-full text-center text-stone-500 hover:text-amber-400 text-sm transition-colors flex items-center justify-center gap-2">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
               Back to Website
@@ -1824,82 +2532,58 @@ function AdminLogin({ onNavigate }: { onNavigate: (page: Page) => void }) {
 /* ─────────────────────────────────────────────
    ADMIN DASHBOARD
    ───────────────────────────────────────────── */
-const SERVICE_LABELS: Record<string, string> = {
-  wigs: "Premium Wigs",
-  braids: "Braids",
-  bohemia: "Bohemia Braids",
-  locs: "Locs",
-  microbonding: "Microbonding",
-  nails: "Nails",
-  attire: "African Attire",
-  massage: "Massage",
-  makeup: "Makeup",
-};
+type AdminTab = "appointments" | "reviews" | "settings" | "staff";
 
-function formatTime24To12(time: string) {
-  const [h, m] = time.split(":").map((v) => parseInt(v, 10));
-  if (Number.isNaN(h) || Number.isNaN(m)) return time;
-  const suffix = h >= 12 ? "PM" : "AM";
-  return `${((h + 11) % 12) + 1}:${String(m).padStart(2, "0")} ${suffix}`;
+const ADMIN_TABS: { key: AdminTab; label: string; permission?: AdminPermission }[] = [
+  { key: "appointments", label: "Appointments" },
+  { key: "reviews", label: "Reviews" },
+  { key: "settings", label: "Website Settings", permission: "settings.edit" },
+  { key: "staff", label: "Staff", permission: "staff.manage" },
+];
+
+function AuthLoading() {
+  return (
+    <div className="min-h-screen bg-stone-950 flex items-center justify-center">
+      <div className="text-stone-400 text-[13px] tracking-widest uppercase">Loading…</div>
+    </div>
+  );
 }
 
-function formatDateShort(dateStr: string) {
-  const d = new Date(`${dateStr}T00:00:00`);
-  if (Number.isNaN(d.getTime())) return dateStr;
-  return d.toLocaleDateString(undefined, {
-    year: "numeric",
-    month: "short",
-    day: "2-digit",
-  });
+/** Sends signed-out visitors to the login page, remembering where they were headed. */
+function RequireAdmin({ children }: { children: ReactNode }) {
+  const { isAuthenticated, authChecked } = useAuth();
+  const location = useLocation();
+  if (!authChecked) return <AuthLoading />;
+  if (!isAuthenticated) {
+    return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  }
+  return <>{children}</>;
 }
 
-function AdminDashboard({ onNavigate }: { onNavigate: (page: Page) => void }) {
-  const { logout } = useAuth();
-  const [currentTab, setCurrentTab] = useState<"reviews" | "settings">("reviews");
-  const [adminReviews, setAdminReviews] = useState<Review[]>([]);
-  const [reviewServiceFilter, setReviewServiceFilter] = useState<string>("all");
-  const [reviewModal, setReviewModal] = useState<Review | null>(null);
+/** Renders a dashboard tab, or falls back to Appointments when the role can't use it. */
+function AdminTabRoute({ tab }: { tab: AdminTab }) {
+  const { admin } = useAuth();
+  const role = admin?.role ?? null;
+  const permission = ADMIN_TABS.find((t) => t.key === tab)?.permission;
+  if (permission && !can(role, permission)) return <Navigate to="/admin/appointments" replace />;
+
+  switch (tab) {
+    case "reviews": return <AdminReviewsPanel role={role} />;
+    case "settings": return <AdminSettingsPanel />;
+    case "staff": return <AdminStaffPanel currentEmail={admin?.email ?? ""} />;
+    default: return <AdminAppointmentsPanel role={role} />;
+  }
+}
 
-  useEffect(() => {
-    const unsubscribe = subscribeReviews((firestoreReviews: FirestoreReview[]) => {
-      setAdminReviews(
-        firestoreReviews.map((r) => ({
-          id: r.id || String(Date.now()),
-          name: r.name,
-          service: r.service,
-          rating: r.rating,
-          text: r.text,
-          date: r.date,
-        }))
-      );
-    });
-    return () => unsubscribe();
-  }, []);
+function AdminDashboard() {
+  const { logout, admin } = useAuth();
+  const navigate = useNavigate();
+  const role = admin?.role ?? null;
+  const tabs = ADMIN_TABS.filter((tab) => !tab.permission || can(role, tab.permission));
 
   const handleLogout = async () => {
     await logout();
-    onNavigate("home");
-  };
-
-  const reviewServiceOptions = useMemo(() => {
-    const set = new Set(adminReviews.map((r) => r.service).filter(Boolean));
-    return Array.from(set).sort();
-  }, [adminReviews]);
-
-  const reviewsFiltered = useMemo(() => {
-    const list =
-      reviewServiceFilter === "all"
-        ? adminReviews
-        : adminReviews.filter((r) => r.service === reviewServiceFilter);
-
-    return [...list].sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-  }, [adminReviews, reviewServiceFilter]);
-
-  const removeReview = async (id: string) => {
-    if (!window.confirm("Delete this review?")) return;
-    await deleteReviewFromFirestore(id);
+    navigate("/");
   };
 
   return (
@@ -1914,17 +2598,20 @@ function AdminDashboard({ onNavigate }: { onNavigate: (page: Page) => void }) {
               </div>
               <div className="min-w-0 hidden sm:block">
                 <h1 className="font-serif text-sm leading-tight">Berly Beauty</h1>
-                <p className="text-[11px] text-stone-500">Admin Panel</p>
+                <p className="text-[11px] text-stone-500">
+                  Admin Panel
+                  {admin ? ` · ${admin.name || admin.email} (${ADMIN_ROLE_LABELS[admin.role]})` : ""}
+                </p>
               </div>
             </div>
 
             <div className="flex items-center gap-2">
-              <button
-                onClick={() => onNavigate("home")}
+              <Link
+                to="/"
                 className="px-3 py-2 text-stone-400 hover:text-white text-[13px] transition-colors"
               >
                 View Site
-              </button>
+              </Link>
               <button
                 onClick={handleLogout}
                 className="px-4 py-2 bg-white/10 hover:bg-white/15 text-[13px] rounded-full transition-colors"
@@ -1940,238 +2627,207 @@ function AdminDashboard({ onNavigate }: { onNavigate: (page: Page) => void }) {
         {/* Tabs */}
         <div className="mb-8">
           <div className="inline-flex items-center gap-1 p-1 bg-white border border-stone-200 rounded-full shadow-sm">
-            {(["reviews", "settings"] as const).map((tab) => (
-              <button
-                key={tab}
-                onClick={() => setCurrentTab(tab)}
-                className={
+            {tabs.map((tab) => (
+              <NavLink
+                key={tab.key}
+                to={`/admin/${tab.key}`}
+                className={({ isActive }) =>
                   "px-5 py-2.5 text-[13px] font-medium transition-all rounded-full " +
-                  (currentTab === tab
+                  (isActive
                     ? "bg-stone-900 text-white shadow-sm"
                     : "text-stone-500 hover:text-stone-700")
                 }
               >
-                {tab === "reviews" ? "Reviews" : "Website Settings"}
-              </button>
+                {tab.label}
+              </NavLink>
             ))}
           </div>
         </div>
 
-        {currentTab === "reviews" ? (
-          <>
-            {/* Reviews header */}
-            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
-              <div>
-                <h2 className="text-2xl font-serif text-stone-900">Reviews</h2>
-                <p className="text-stone-500 text-sm mt-1">Moderate and manage reviews shown on the website.</p>
-              </div>
-              <div className="flex flex-wrap items-center gap-3">
-                <select
-                  value={reviewServiceFilter}
-                  onChange={(e) => setReviewServiceFilter(e.target.value)}
-                  className="px-3 py-2 border border-stone-200 bg-white text-sm rounded-xl outline-none focus:border-amber-600"
-                >
-                  <option value="all">All services</option>
-                  {reviewServiceOptions.map((s) => (
-                    <option key={s} value={s}>
-                      {s}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-
-            <div className="bg-white border border-stone-200 shadow-sm overflow-hidden rounded-2xl">
-              <div className="overflow-x-auto">
-                <table className="w-full min-w-[860px]">
-                  <thead className="bg-stone-50">
-                    <tr>
-                      {["Client", "Service", "Rating", "Date", "Review", "Actions"].map((h) => (
-                        <th
-                          key={h}
-                          className={`px-5 py-3.5 text-[11px] font-semibold text-stone-400 uppercase tracking-[0.25em] ${
-                            h === "Actions" ? "text-right" : "text-left"
-                          }`}
-                        >
-                          {h}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-stone-100">
-                    {reviewsFiltered.length === 0 ? (
-                      <tr>
-                        <td colSpan={6} className="px-6 py-16 text-center">
-                          <p className="text-stone-600 font-medium">No reviews found</p>
-                          <p className="text-stone-400 text-sm mt-1">New reviews will appear here when clients submit them.</p>
-                        </td>
-                      </tr>
-                    ) : (
-                      reviewsFiltered.map((r) => (
-                        <tr key={r.id} className="hover:bg-stone-50/60 transition-colors">
-                          <td className="px-5 py-4">
-                            <p className="font-medium text-stone-900 text-sm">{r.name}</p>
-                          </td>
-                          <td className="px-5 py-4 text-sm text-stone-600">{r.service}</td>
-                          <td className="px-5 py-4">
-                            <div className="flex items-center gap-1">
-                              {[1, 2, 3, 4, 5].map((star) => (
-                                <svg
-                                  key={star}
-                                  className={"w-3.5 h-3.5 " + (star <= r.rating ? "text-amber-600" : "text-stone-300")}
-                                  fill="currentColor"
-                                  viewBox="0 0 20 20"
-                                >
-                                  <path d="M10 15l-5.878 3.09 1.123-6.545L.489 6.91l6.572-.955L10 0l2.939 5.955 6.572.955-4.756 4.635 1.123 6.545z" />
-                                </svg>
-                              ))}
-                              <span className="text-[12px] text-stone-400 ml-1">{r.rating}/5</span>
-                            </div>
-                          </td>
-                          <td className="px-5 py-4 text-sm text-stone-600">{formatDateShort(r.date)}</td>
-                          <td className="px-5 py-4 text-sm text-stone-600 max-w-[380px]">
-                            <button
-                              type="button"
-                              onClick={() => setReviewModal(r)}
-                              className="text-left hover:text-stone-900 transition-colors"
-                              title="View full review"
-                            >
-                              <p className="overflow-hidden text-ellipsis whitespace-nowrap">{r.text}</p>
-                            </button>
-                          </td>
-                          <td className="px-5 py-4">
-                            <div className="flex items-center justify-end gap-2">
-                              <button
-                                type="button"
-                                onClick={() => setReviewModal(r)}
-                                className="px-3 py-1.5 text-[12px] border border-stone-200 text-stone-600 hover:text-stone-900 rounded-lg transition-colors"
-                              >
-                                View
-                              </button>
-                              <button
-                                type="button"
-                                onClick={() => removeReview(r.id)}
-                                className="px-3 py-1.5 text-[12px] border border-stone-200 text-stone-500 hover:text-red-600 hover:border-red-200 rounded-lg transition-colors"
-                              >
-                                Delete
-                              </button>
-                            </div>
-                          </td>
-                        </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
-              </div>
-              <div className="px-5 py-3.5 border-t border-stone-100 flex items-center justify-between text-[12px] text-stone-400">
-                <p>
-                  Showing <span className="text-stone-600">{reviewsFiltered.length}</span> of{" "}
-                  <span className="text-stone-600">{adminReviews.length}</span> review(s)
-                </p>
-                <p>Delete reviews that are inappropriate or spam.</p>
-              </div>
-            </div>
-
-            {/* Review modal */}
-            {reviewModal && (
-              <div
-                className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4"
-                role="dialog"
-                aria-modal="true"
-                onMouseDown={(e) => {
-                  if (e.target === e.currentTarget) setReviewModal(null);
-                }}
-              >
-                <div className="w-full max-w-2xl bg-white rounded-3xl overflow-hidden shadow-2xl">
-                  <div className="p-6 bg-stone-950 text-white flex items-start justify-between">
-                    <div>
-                      <p className="text-[11px] tracking-[0.35em] uppercase text-white/60">Review</p>
-                      <h3 className="font-serif text-xl mt-1">{reviewModal.name}</h3>
-                      <p className="text-white/60 text-sm mt-1">{reviewModal.service} · {formatDateShort(reviewModal.date)}</p>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={() => setReviewModal(null)}
-                      className="w-9 h-9 rounded-full hover:bg-white/10 transition-colors flex items-center justify-center"
-                      aria-label="Close"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                  <div className="p-6">
-                    <div className="flex items-center gap-1 mb-4">
-                      {[1, 2, 3, 4, 5].map((star) => (
-                        <svg key={star} className={"w-4 h-4 " + (star <= reviewModal.rating ? "text-amber-600" : "text-stone-300")} fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M10 15l-5.878 3.09 1.123-6.545L.489 6.91l6.572-.955L10 0l2.939 5.955 6.572.955-4.756 4.635 1.123 6.545z" />
-                        </svg>
-                      ))}
-                      <span className="text-sm text-stone-500 ml-2">{reviewModal.rating}/5</span>
-                    </div>
-                    <p className="text-stone-700 leading-relaxed whitespace-pre-wrap">{reviewModal.text}</p>
-
-                    <div className="mt-6 flex items-center justify-end gap-2">
-                      <button
-                        type="button"
-                        onClick={() => setReviewModal(null)}
-                        className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-stone-900 rounded-full transition-colors"
-                      >
-                        Close
-                      </button>
-                      <button
-                        type="button"
-                        onClick={async () => {
-                          await removeReview(reviewModal.id);
-                          setReviewModal(null);
-                        }}
-                        className="px-5 py-2.5 bg-stone-900 text-white hover:bg-stone-800 rounded-full transition-colors"
-                      >
-                        Delete Review
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
-          </>
-        ) : (
-          <AdminSettingsPanel />
-        )}
+        <Outlet />
       </main>
     </div>
   );
 }
 
 /* ─────────────────────────────────────────────
-   BOOKING MODAL (WhatsApp only)
+   ADMIN PREVIEW (draft settings as a visitor sees them)
    ───────────────────────────────────────────── */
+function AdminPreview() {
+  const { admin } = useAuth();
+  const { draft, loading, hasUnpublishedChanges, publish } = useSettingsDraft();
+  const [status, setStatus] = useState<"idle" | "publishing" | "published" | "failed">("idle");
+
+  if (!can(admin?.role ?? null, "settings.edit")) return <Navigate to="/admin/appointments" replace />;
+  if (loading) return <AuthLoading />;
+
+  const handlePublish = async () => {
+    if (!window.confirm("Publish these settings to the live website?")) return;
+    setStatus("publishing");
+    setStatus((await publish(draft)) ? "published" : "failed");
+  };
+
+  return (
+    <>
+      <SiteSettingsPreview settings={draft}>
+        <PublicSite />
+      </SiteSettingsPreview>
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-2rem)] max-w-xl px-5 py-3 rounded-full bg-stone-950/95 text-white shadow-2xl flex items-center justify-between gap-3 text-[13px]">
+        <span className="text-stone-300 truncate">
+          {status === "failed"
+            ? "Could not publish. Try again."
+            : hasUnpublishedChanges
+              ? "Previewing the draft — not live yet"
+              : "Previewing — matches the live site"}
+        </span>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Link to="/admin/settings" className="px-3 py-1.5 text-stone-400 hover:text-white transition-colors">
+            Edit
+          </Link>
+          <button
+            onClick={handlePublish}
+            disabled={!hasUnpublishedChanges || status === "publishing"}
+            className="px-4 py-1.5 bg-amber-600 hover:bg-amber-700 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {status === "publishing" ? "Publishing…" : "Publish"}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/* ─────────────────────────────────────────────
+   BOOKING MODAL (saved request + WhatsApp)
+   ───────────────────────────────────────────── */
+function WhatsAppIcon({ className }: { className: string }) {
+  return (
+    <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+      <path d="M.057 24l1.687-6.163c-1.041-1.804-1.588-3.849-1.587-5.946.003-6.556 5.338-11.891 11.893-11.891 3.181.001 6.167 1.24 8.413 3.488 2.245 2.248 3.481 5.236 3.48 8.414-.003 6.557-5.338 11.892-11.893 11.892-1.99-.001-3.951-.5-5.688-1.448l-6.305 1.654zm6.597-3.807c1.676.995 3.276 1.591 5.392 1.592 5.448 0 9.886-4.434 9.889-9.885.002-5.462-4.415-9.89-9.881-9.892-5.452 0-9.887 4.434-9.889 9.884-.001 2.225.651 3.891 1.746 5.634l-.999 3.648 3.742-.981zm11.387-5.464c-.074-.124-.272-.198-.57-.347-.297-.149-1.758-.868-2.031-.967-.272-.099-.47-.149-.669.149-.198.297-.768.967-.941 1.165-.173.198-.347.223-.644.074-.297-.149-1.255-.462-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.297-.347.446-.521.151-.172.2-.296.3-.495.099-.198.05-.372-.025-.521-.075-.148-.669-1.611-.916-2.206-.242-.579-.487-.501-.669-.51l-.57-.01c-.198 0-.52.074-.792.372s-1.04 1.016-1.04 2.479 1.065 2.876 1.213 3.074c.149.198 2.095 3.2 5.076 4.487.709.306 1.263.489 1.694.626.712.226 1.36.194 1.872.118.571-.085 1.758-.719 2.006-1.413.248-.695.248-1.29.173-1.414z" />
+    </svg>
+  );
+}
+
 function BookingModal({
   isOpen,
+  initialService = "",
+  initialPromotion = "",
   onClose,
 }: {
   isOpen: boolean;
+  /** Service key to pre-select when opened from a service's "Book" button. */
+  initialService?: string;
+  /** Promotion id to claim when opened from a special's button. */
+  initialPromotion?: string;
   onClose: () => void;
 }) {
   const { settings } = useSiteSettings();
-  const [formData, setFormData] = useState({
-    firstName: "",
-    lastName: "",
-    email: "",
-    phone: "",
-    date: "",
-    time: "",
-    service: "",
-    message: "",
-  });
+  const [formData, setFormData] = useState<BookingFormData>(EMPTY_BOOKING_FORM);
+  const [formError, setFormError] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<{
+    reference: string;
+    saved: boolean;
+    whatsappUrl: string;
+  } | null>(null);
+  // null = availability unknown (API unreachable); the server re-checks on submit.
+  const [booked, setBooked] = useState<BookedSlot[] | null>(null);
+  const [availabilityLoading, setAvailabilityLoading] = useState(false);
+  const [availabilityVersion, setAvailabilityVersion] = useState(0);
+
+  const services = getActiveServices(settings);
+  const team = getActiveTeam(settings);
+  const selectedService = services.find((s) => s.key === formData.service) ?? null;
+  const stylistOptions = getStylistsForBooking(team, formData.service, formData.date);
+  const selectedStylist = team.find((m) => m.id === formData.stylist) ?? null;
+  // Recomputed on open so "today" and past slots stay current.
+  const bookableDates = useMemo(
+    () =>
+      getBookableDates(settings.hours).filter(
+        (d) =>
+          !selectedStylist ||
+          selectedStylist.workingDays.includes(new Date(`${d}T00:00:00`).getDay())
+      ),
+    [settings.hours, selectedStylist, isOpen]
+  );
 
-  const handleWhatsAppBooking = () => {
-    const serviceLabel = formData.service
-      ? SERVICE_LABELS[formData.service] || formData.service
+  useEffect(() => {
+    if (!isOpen || !formData.date) {
+      setBooked(null);
+      return;
+    }
+    let cancelled = false;
+    setAvailabilityLoading(true);
+    fetchBookedSlots(formData.date).then((list) => {
+      if (cancelled) return;
+      setBooked(list);
+      setAvailabilityLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, formData.date, availabilityVersion]);
+
+  const timeSlots = useMemo(() => {
+    if (!formData.date) return [];
+    if (!selectedService) return getTimeSlots(settings.hours, formData.date);
+    return getAvailableTimeSlots(
+      settings.hours,
+      formData.date,
+      selectedService,
+      booked ?? [],
+      formData.stylist
+    );
+  }, [settings.hours, formData.date, selectedService, formData.stylist, booked, isOpen]);
+
+  // Same for a preferred stylist who doesn't do the new service or day.
+  useEffect(() => {
+    if (formData.stylist && !stylistOptions.some((m) => m.id === formData.stylist)) {
+      setFormData((prev) => ({ ...prev, stylist: "" }));
+    }
+  }, [formData.service, formData.date, settings.team]);
+
+  // Drop a chosen time once it stops fitting (new date, longer service, just booked).
+  useEffect(() => {
+    if (formData.time && !timeSlots.includes(formData.time)) {
+      setFormData((prev) => ({ ...prev, time: "" }));
+    }
+  }, [timeSlots]);
+
+  // Opened from a service's "Book" button: start on that service. Opened from a
+  // special's button: also claim it and fill in its code; any other button drops the claim.
+  useEffect(() => {
+    if (!isOpen) return;
+    const promotion = getLivePromotions(settings).find((p) => p.id === initialPromotion);
+    setFormData((prev) => ({
+      ...prev,
+      ...(initialService && services.some((s) => s.key === initialService)
+        ? { service: initialService }
+        : {}),
+      promotion: promotion?.id ?? "",
+      ...(promotion?.code ? { promoCode: promotion.code } : {}),
+    }));
+  }, [isOpen, initialService, initialPromotion]);
+
+  const claimedPromotion = formData.promotion
+    ? settings.promotions.items.find((p) => p.id === formData.promotion) ?? null
+    : null;
+  const claimedServices = claimedPromotion
+    ? services.filter((s) => claimedPromotion.services.includes(s.key))
+    : [];
+
+  // Feedback as the client types a code; the server re-checks it (and its usage limit) on submit.
+  const promoCheck = formData.promoCode.trim()
+    ? checkPromoCode(settings.promotions, services, formData.promoCode, formData.service)
+    : null;
+
+  const buildWhatsAppUrl = (data: BookingFormData & { promo?: AppointmentPromo }, reference: string) => {
+    const serviceLabel = data.service
+      ? getServiceLabel(settings, data.service)
       : "";
 
-    const dateFormatted = formData.date
-      ? new Date(formData.date + "T00:00:00").toLocaleDateString("en-ZA", {
+    const dateFormatted = data.date
+      ? new Date(data.date + "T00:00:00").toLocaleDateString("en-ZA", {
           weekday: "long",
           year: "numeric",
           month: "long",
@@ -2179,22 +2835,32 @@ function BookingModal({
         })
       : "";
 
-    const timeFormatted = formData.time ? formatTime24To12(formData.time) : "";
+    const timeFormatted = data.time ? formatTime24To12(data.time) : "";
 
-    const name = [formData.firstName.trim(), formData.lastName.trim()]
+    const name = [data.firstName.trim(), data.lastName.trim()]
       .filter(Boolean)
       .join(" ");
 
     const lines: string[] = ["Hi Berly Beauty", "", "Appointment request"]; // keep clean + professional
 
+    if (reference) lines.push(`Reference: ${reference}`);
     if (name) lines.push(`Name: ${name}`);
-    if (formData.phone.trim()) lines.push(`Phone: ${formData.phone.trim()}`);
-    if (formData.email.trim()) lines.push(`Email: ${formData.email.trim()}`);
+    if (data.phone.trim()) lines.push(`Phone: ${data.phone.trim()}`);
+    if (data.email.trim()) lines.push(`Email: ${data.email.trim()}`);
     if (serviceLabel) lines.push(`Service: ${serviceLabel}`);
+    const stylistName = team.find((m) => m.id === data.stylist)?.name;
+    if (stylistName) lines.push(`Preferred stylist: ${stylistName}`);
     if (dateFormatted) lines.push(`Date: ${dateFormatted}`);
     if (timeFormatted) lines.push(`Time: ${timeFormatted}`);
+    // A claimed special with a code is named on the promo code line instead.
+    const special = settings.promotions.items.find((p) => p.id === data.promotion);
+    if (special && special.id !== data.promo?.id) lines.push(`Claiming special: ${special.title}`);
+    if (data.promo) {
+      const details = [data.promo.title, data.promo.discount].filter(Boolean).join(", ");
+      lines.push(`Promo code: ${data.promo.code}${details ? ` (${details})` : ""}`);
+    }
 
-    const note = formData.message.trim();
+    const note = data.message.trim();
     if (note) {
       lines.push("", "Message:", note);
     }
@@ -2206,27 +2872,51 @@ function BookingModal({
     lines.push("", "Thank you.");
 
     const whatsappNumber = settings.contact.whatsappDigits || "27692888445";
-    window.open(
-      `https://wa.me/${whatsappNumber}?text=${encodeURIComponent(
-        lines.join("\n")
-      )}`,
-      "_blank"
-    );
+    return `https://wa.me/${whatsappNumber}?text=${encodeURIComponent(
+      lines.join("\n")
+    )}`;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    handleWhatsAppBooking();
-    setFormData({
-      firstName: "",
-      lastName: "",
-      email: "",
-      phone: "",
-      date: "",
-      time: "",
-      service: "",
-      message: "",
+    setFormError("");
+
+    const result = validateBooking(formData, {
+      services,
+      hours: settings.hours,
+      team,
+      booked,
+      promotions: settings.promotions,
     });
+    if (!result.ok) {
+      setFormError(result.message);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const submitted = await submitAppointment(result.data);
+    setIsSubmitting(false);
+
+    // Rejected by the server (e.g. the slot was taken meanwhile): stay on the form.
+    if (!submitted.ok && (submitted.field || submitted.code)) {
+      setFormError(submitted.message);
+      if (submitted.code === "slot_unavailable") setAvailabilityVersion((v) => v + 1);
+      return;
+    }
+
+    const saved = submitted.ok;
+    const reference = submitted.ok ? submitted.reference : "";
+    const whatsappUrl = buildWhatsAppUrl({ ...formData, ...result.data }, reference);
+    setConfirmation({ reference, saved, whatsappUrl });
+    if (saved) {
+      setFormData(EMPTY_BOOKING_FORM);
+      window.open(whatsappUrl, "_blank");
+    }
+  };
+
+  const handleClose = () => {
+    setConfirmation(null);
+    setFormError("");
     onClose();
   };
 
@@ -2238,13 +2928,17 @@ function BookingModal({
         {/* Header */}
         <div className="sticky top-0 bg-stone-950 text-white p-6 rounded-t-3xl flex items-center justify-between z-10">
           <div>
-            <h3 className="font-serif text-xl">Book via WhatsApp</h3>
+            <h3 className="font-serif text-xl">
+              {confirmation?.saved ? "Request Received" : "Book via WhatsApp"}
+            </h3>
             <p className="text-stone-400 text-sm mt-0.5">
-              This will open WhatsApp with your details.
+              {confirmation?.saved
+                ? "Your booking request has been saved."
+                : "We save your request, then open WhatsApp with your details."}
             </p>
           </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="w-9 h-9 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors"
             aria-label="Close"
           >
@@ -2265,142 +2959,542 @@ function BookingModal({
         </div>
 
         <div className="p-8">
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <div className="grid md:grid-cols-2 gap-5">
+          {confirmation ? (
+            <div className="text-center space-y-6">
+              {confirmation.saved ? (
+                <>
+                  <div className="w-14 h-14 mx-auto rounded-full bg-emerald-50 border border-emerald-200 flex items-center justify-center">
+                    <svg className="w-7 h-7 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="text-[11px] tracking-[0.3em] uppercase text-stone-400">Your reference</p>
+                    <p className="mt-2 font-mono text-3xl tracking-widest text-stone-900 select-all">
+                      {confirmation.reference}
+                    </p>
+                    <p className="mt-3 text-sm text-stone-500 max-w-sm mx-auto">
+                      Please quote this reference when you chat to us. Send the WhatsApp
+                      message so we can confirm your slot.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="p-4 rounded-2xl bg-amber-50 border border-amber-200 text-amber-800 text-sm text-left">
+                  We couldn’t save your request online right now. Please send it to us on
+                  WhatsApp instead and we will confirm your booking.
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                <a
+                  href={confirmation.whatsappUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full sm:w-auto px-8 py-3.5 bg-green-600 text-white text-[13px] tracking-widest uppercase font-medium hover:bg-green-500 transition-colors rounded-full flex items-center justify-center gap-2.5"
+                >
+                  <WhatsAppIcon className="w-5 h-5" />
+                  {confirmation.saved ? "Open WhatsApp" : "Send on WhatsApp"}
+                </a>
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  className="w-full sm:w-auto px-8 py-3.5 border border-stone-200 text-stone-600 text-[13px] tracking-widest uppercase font-medium hover:text-stone-900 transition-colors rounded-full"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="space-y-5">
+              {formError && (
+                <div className="p-4 rounded-2xl bg-red-50 border border-red-200 text-red-700 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              {claimedPromotion ? (
+                <div className="p-4 rounded-2xl bg-amber-50 border border-amber-200 flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="text-[11px] tracking-[0.25em] uppercase text-amber-700">Claiming special</p>
+                    <p className="font-serif text-lg text-stone-900 mt-1">{claimedPromotion.title}</p>
+                    {claimedServices.length > 0 ? (
+                      <p
+                        className={
+                          "text-[12px] mt-1 " +
+                          (formData.service && !claimedPromotion.services.includes(formData.service)
+                            ? "text-red-600"
+                            : "text-stone-500")
+                        }
+                      >
+                        For {claimedServices.map((s) => s.title).join(" or ")}
+                      </p>
+                    ) : null}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        promotion: "",
+                        promoCode: formData.promoCode === claimedPromotion.code ? "" : formData.promoCode,
+                      })
+                    }
+                    className="text-[11px] tracking-widest uppercase text-stone-400 hover:text-stone-700 transition-colors shrink-0"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : null}
+
+              <div className="grid md:grid-cols-2 gap-5">
+                <div>
+                  <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    First Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.firstName}
+                    onChange={(e) =>
+                      setFormData({ ...formData, firstName: e.target.value })
+                    }
+                    className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    Last Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.lastName}
+                    onChange={(e) =>
+                      setFormData({ ...formData, lastName: e.target.value })
+                    }
+                    className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                  First Name *
+                  Email *
                 </label>
                 <input
-                  type="text"
+                  type="email"
                   required
-                  value={formData.firstName}
-                  onChange={(e) =>
-                    setFormData({ ...formData, firstName: e.target.value })
-                  }
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
                   className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
                 />
               </div>
+
               <div>
                 <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                  Last Name *
+                  Phone *
                 </label>
                 <input
-                  type="text"
+                  type="tel"
                   required
-                  value={formData.lastName}
-                  onChange={(e) =>
-                    setFormData({ ...formData, lastName: e.target.value })
-                  }
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                   className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
                 />
               </div>
-            </div>
 
-            <div>
-              <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                Email *
-              </label>
-              <input
-                type="email"
-                required
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
-              />
-            </div>
+              <div>
+                <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                  Service *
+                </label>
+                <select
+                  required
+                  value={formData.service}
+                  onChange={(e) => setFormData({ ...formData, service: e.target.value })}
+                  className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors appearance-none"
+                >
+                  <option value="">Select a service</option>
+                  {services.map((s) => (
+                    <option key={s.key} value={s.key}>
+                      {s.title} · {formatDuration(s.durationMinutes)}
+                    </option>
+                  ))}
+                </select>
+              </div>
 
-            <div>
-              <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                Phone *
-              </label>
-              <input
-                type="tel"
-                required
-                value={formData.phone}
-                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
-              />
-            </div>
+              {team.length > 0 ? (
+                <div>
+                  <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    Preferred Stylist
+                  </label>
+                  <select
+                    value={formData.stylist}
+                    onChange={(e) => setFormData({ ...formData, stylist: e.target.value })}
+                    className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors appearance-none"
+                  >
+                    <option value="">No preference</option>
+                    {stylistOptions.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name}
+                        {m.title ? ` · ${m.title}` : ""}
+                      </option>
+                    ))}
+                  </select>
+                  {formData.service && stylistOptions.length === 0 ? (
+                    <p className="mt-1.5 text-[11px] text-stone-400">
+                      {formData.date
+                        ? "No one who does this service works that day — any available stylist will look after you."
+                        : "Any available stylist will look after you."}
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <div className="grid md:grid-cols-2 gap-5">
+                <div>
+                  <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    Preferred Date *
+                  </label>
+                  <select
+                    required
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors appearance-none"
+                  >
+                    <option value="">Select a date</option>
+                    {bookableDates.map((d) => (
+                      <option key={d} value={d}>
+                        {new Date(`${d}T00:00:00`).toLocaleDateString("en-ZA", {
+                          weekday: "short",
+                          day: "numeric",
+                          month: "short",
+                        })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    Preferred Time *
+                  </label>
+                  <select
+                    required
+                    disabled={!formData.date}
+                    value={formData.time}
+                    onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                    className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors appearance-none disabled:bg-stone-50 disabled:text-stone-400"
+                  >
+                    <option value="">
+                      {!formData.date
+                        ? "Choose a date first"
+                        : availabilityLoading
+                          ? "Checking availability…"
+                          : timeSlots.length === 0
+                            ? "Fully booked"
+                            : "Select a time"}
+                    </option>
+                    {timeSlots.map((t) => (
+                      <option key={t} value={t}>
+                        {formatTime24To12(t)}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1.5 text-[11px] text-stone-400">
+                    {formData.date && !availabilityLoading && timeSlots.length === 0
+                      ? selectedStylist
+                        ? `${selectedStylist.name} has no free slots for this service that day. Please choose another date.`
+                        : "No free slots for this service on that day. Please choose another date."
+                      : formatWeeklyHours(settings.hours).join(" · ")}
+                  </p>
+                </div>
+              </div>
 
-            <div className="grid md:grid-cols-2 gap-5">
               <div>
                 <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                  Preferred Date *
+                  Message
                 </label>
-                <input
-                  type="date"
-                  required
-                  value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
+                <textarea
+                  rows={3}
+                  value={formData.message}
+                  onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+                  className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors resize-none"
+                  placeholder="Any special requests or notes..."
                 />
               </div>
+
               <div>
                 <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                  Preferred Time *
+                  Promo Code
                 </label>
                 <input
-                  type="time"
-                  required
-                  min="07:00"
-                  max="19:00"
-                  value={formData.time}
-                  onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-                  className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors"
+                  type="text"
+                  value={formData.promoCode}
+                  onChange={(e) => setFormData({ ...formData, promoCode: e.target.value.toUpperCase() })}
+                  maxLength={20}
+                  autoComplete="off"
+                  className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors font-mono tracking-widest uppercase"
+                  placeholder="Optional"
                 />
-                <p className="mt-1.5 text-[11px] text-stone-400">{settings.contact.hours}</p>
+                {promoCheck ? (
+                  <p className={"mt-1.5 text-[11px] " + (promoCheck.ok ? "text-emerald-700" : "text-stone-400")}>
+                    {promoCheck.ok
+                      ? [promoCheck.promotion.title, formatDiscount(promoCheck.promotion.discount)]
+                          .filter(Boolean)
+                          .join(" · ") + " — applied when we confirm your booking."
+                      : promoCheck.message}
+                  </p>
+                ) : null}
               </div>
-            </div>
 
-            <div>
-              <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                Service *
-              </label>
-              <select
-                required
-                value={formData.service}
-                onChange={(e) => setFormData({ ...formData, service: e.target.value })}
-                className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors appearance-none"
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3.5 bg-green-600 text-white text-[13px] tracking-widest uppercase font-medium hover:bg-green-500 transition-colors rounded-full flex items-center justify-center gap-2.5 disabled:opacity-60 disabled:cursor-not-allowed"
               >
-                <option value="">Select a service</option>
-                {Object.entries(SERVICE_LABELS).map(([key, label]) => (
-                  <option key={key} value={key}>
-                    {label}
-                  </option>
-                ))}
-              </select>
+                <WhatsAppIcon className="w-5 h-5" />
+                {isSubmitting ? "Saving…" : "Send on WhatsApp"}
+              </button>
+
+              <p className="text-[11px] text-stone-400 text-center">
+                WhatsApp opens in a new tab. We will confirm your booking as soon as possible.
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ─────────────────────────────────────────────
+   SERVICE DETAIL PAGE
+   ───────────────────────────────────────────── */
+const STAR_PATH =
+  "M10 15l-5.878 3.09 1.123-6.545L.489 6.91l6.572-.955L10 0l2.939 5.955 6.572.955-4.756 4.635 1.123 6.545z";
+
+function ServiceDetailPage() {
+  const { key = "" } = useParams();
+  const { settings, loading } = useSiteSettings();
+  const service = getActiveServices(settings).find((s) => s.key === key) ?? null;
+  const images = useMemo(() => getServiceGalleryImages(settings, key), [settings.gallery, key]);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [reviews, setReviews] = useState<FirestoreReview[]>([]);
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    setFailed([]);
+  }, [key]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeReviews(setReviews);
+    return () => unsubscribe();
+  }, []);
+
+  usePublicPageEffects(() => setIsBookingModalOpen(true));
+
+  // Reviews store the service title the client picked (older ones may hold the key).
+  const serviceReviews = useMemo(
+    () =>
+      service
+        ? reviews
+            .filter((r) => r.service === service.title || r.service === service.key)
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        : [],
+    [reviews, service?.title, service?.key]
+  );
+  const averageRating = serviceReviews.length
+    ? serviceReviews.reduce((acc, r) => acc + r.rating, 0) / serviceReviews.length
+    : 0;
+
+  if (!service) {
+    // Custom services only exist once the saved settings have loaded.
+    return loading ? <AuthLoading /> : <Navigate to="/services" replace />;
+  }
+
+  const priceRows = service.priceTable.filter((row) => row.label.trim());
+  const aftercare = service.aftercare.filter((line) => line.trim());
+  const visibleImages = images.filter((src) => !failed.includes(src));
+
+  return (
+    <div className="font-sans antialiased">
+      <Navbar />
+
+      {/* Header */}
+      <header className="relative bg-stone-950 text-white pt-40 pb-20 bb-section">
+        <div className="bb-noise-overlay" />
+        <div className="max-w-5xl mx-auto px-6 lg:px-8 relative">
+          <Link
+            to="/services"
+            className="inline-flex items-center gap-2 text-[12px] tracking-[0.25em] uppercase text-stone-400 hover:text-amber-300 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16l-4-4m0 0l4-4m-4 4h18" /></svg>
+            All services
+          </Link>
+          <p className="text-amber-400 text-[13px] tracking-[0.35em] uppercase font-medium mt-10 mb-4">{service.category}</p>
+          <h1 className="text-4xl md:text-6xl font-serif leading-tight">{service.title}</h1>
+          <div className="w-12 h-[2px] bg-amber-500 mt-6 mb-6" />
+          <p className="text-stone-300 leading-relaxed max-w-2xl">{service.description}</p>
+          <div className="mt-8 flex flex-wrap items-center gap-4">
+            <a
+              href="#contact"
+              className="px-8 py-3.5 bg-amber-600 text-white text-[12px] tracking-[0.25em] uppercase font-medium hover:bg-amber-500 transition-colors rounded-full"
+            >
+              Book {service.title}
+            </a>
+            {service.price ? (
+              <span className="text-amber-200 text-sm">{service.price}</span>
+            ) : null}
+            <span className="text-stone-400 text-sm">About {formatDuration(service.durationMinutes)}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="bg-gradient-to-b from-white via-stone-50 to-white">
+        <div className="max-w-5xl mx-auto px-6 lg:px-8 py-20 space-y-20">
+          {/* About + pricing */}
+          <section className="grid lg:grid-cols-5 gap-12">
+            <div className="lg:col-span-3">
+              <p className="text-amber-700 text-[13px] tracking-[0.35em] uppercase font-medium mb-4">About</p>
+              <p className="text-stone-600 leading-relaxed whitespace-pre-line">
+                {service.longDescription.trim() || service.description}
+              </p>
+              {service.highlights.some((h) => h.trim()) ? (
+                <div className="mt-6 flex flex-wrap gap-2">
+                  {service.highlights.filter((h) => h.trim()).map((h) => (
+                    <span key={h} className="inline-flex items-center px-3 py-1.5 rounded-full text-[12px] text-stone-600 bg-white border border-stone-200/80">{h}</span>
+                  ))}
+                </div>
+              ) : null}
             </div>
 
-            <div>
-              <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
-                Message
-              </label>
-              <textarea
-                rows={3}
-                value={formData.message}
-                onChange={(e) => setFormData({ ...formData, message: e.target.value })}
-                className="w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors resize-none"
-                placeholder="Any special requests or notes..."
-              />
+            <div className="lg:col-span-2">
+              <div className="bg-white border border-stone-200/80 rounded-3xl p-7 shadow-sm">
+                <h2 className="text-xl font-serif text-stone-900">Pricing</h2>
+                {priceRows.length > 0 ? (
+                  <dl className="mt-5 divide-y divide-stone-100">
+                    {priceRows.map((row, i) => (
+                      <div key={`${row.label}-${i}`} className="flex items-center justify-between gap-4 py-3">
+                        <dt className="text-sm text-stone-600">{row.label}</dt>
+                        <dd className="text-sm font-medium text-amber-800">{row.price || "Enquire"}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                ) : (
+                  <p className="mt-4 text-sm text-stone-500">
+                    {service.price || "Please enquire — final cost depends on length, design complexity and finishing."}
+                  </p>
+                )}
+              </div>
             </div>
+          </section>
+
+          {/* Aftercare */}
+          {aftercare.length > 0 ? (
+            <section>
+              <p className="text-amber-700 text-[13px] tracking-[0.35em] uppercase font-medium mb-4">Aftercare</p>
+              <h2 className="text-3xl font-serif text-stone-900">Keeping it fresh</h2>
+              <ul className="mt-6 grid md:grid-cols-2 gap-4">
+                {aftercare.map((line, i) => (
+                  <li key={i} className="flex items-start gap-3 p-5 bg-white border border-stone-200/80 rounded-2xl text-sm text-stone-600 leading-relaxed">
+                    <svg className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                    {line}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ) : null}
 
-            <button
-              type="submit"
-              className="w-full py-3.5 bg-green-600 text-white text-[13px] tracking-widest uppercase font-medium hover:bg-green-500 transition-colors rounded-full flex items-center justify-center gap-2.5"
-            >
-              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M.057 24l1.687-6.163c-1.041-1.804-1.588-3.849-1.587-5.946.003-6.556 5.338-11.891 11.893-11.891 3.181.001 6.167 1.24 8.413 3.488 2.245 2.248 3.481 5.236 3.48 8.414-.003 6.557-5.338 11.892-11.893 11.892-1.99-.001-3.951-.5-5.688-1.448l-6.305 1.654zm6.597-3.807c1.676.995 3.276 1.591 5.392 1.592 5.448 0 9.886-4.434 9.889-9.885.002-5.462-4.415-9.89-9.881-9.892-5.452 0-9.887 4.434-9.889 9.884-.001 2.225.651 3.891 1.746 5.634l-.999 3.648 3.742-.981zm11.387-5.464c-.074-.124-.272-.198-.57-.347-.297-.149-1.758-.868-2.031-.967-.272-.099-.47-.149-.669.149-.198.297-.768.967-.941 1.165-.173.198-.347.223-.644.074-.297-.149-1.255-.462-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.297-.347.446-.521.151-.172.2-.296.3-.495.099-.198.05-.372-.025-.521-.075-.148-.669-1.611-.916-2.206-.242-.579-.487-.501-.669-.51l-.57-.01c-.198 0-.52.074-.792.372s-1.04 1.016-1.04 2.479 1.065 2.876 1.213 3.074c.149.198 2.095 3.2 5.076 4.487.709.306 1.263.489 1.694.626.712.226 1.36.194 1.872.118.571-.085 1.758-.719 2.006-1.413.248-.695.248-1.29.173-1.414z" />
-              </svg>
-              Send on WhatsApp
-            </button>
+          {/* Tagged gallery images */}
+          {visibleImages.length > 0 ? (
+            <section>
+              <p className="text-amber-700 text-[13px] tracking-[0.35em] uppercase font-medium mb-4">Our work</p>
+              <h2 className="text-3xl font-serif text-stone-900">{service.title} gallery</h2>
+              <div className="mt-6 grid grid-cols-2 md:grid-cols-3 gap-3">
+                {visibleImages.map((src) => (
+                  <a
+                    key={src}
+                    href={src}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="block aspect-square overflow-hidden rounded-2xl bg-stone-100"
+                  >
+                    <SiteImage
+                      src={src}
+                      alt={getGalleryImageMeta(settings, src).alt.trim() || `${service.title} by Berly Beauty`}
+                      sizes="(min-width: 1024px) 320px, (min-width: 768px) 33vw, 50vw"
+                      onError={() => setFailed((prev) => [...prev, src])}
+                      className="w-full h-full object-cover hover:scale-105 transition-transform duration-500"
+                    />
+                  </a>
+                ))}
+              </div>
+            </section>
+          ) : null}
 
-            <p className="text-[11px] text-stone-400 text-center">
-              WhatsApp opens in a new tab. We will confirm your booking as soon as possible.
-            </p>
-          </form>
+          {/* Reviews */}
+          <section>
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div>
+                <p className="text-amber-700 text-[13px] tracking-[0.35em] uppercase font-medium mb-4">Reviews</p>
+                <h2 className="text-3xl font-serif text-stone-900">What clients say</h2>
+              </div>
+              {serviceReviews.length > 0 ? (
+                <div className="flex items-center gap-2 text-sm text-stone-500">
+                  <span className="text-2xl font-serif text-stone-900">{averageRating.toFixed(1)}</span>
+                  from {serviceReviews.length} review{serviceReviews.length !== 1 ? "s" : ""}
+                </div>
+              ) : null}
+            </div>
+            {serviceReviews.length > 0 ? (
+              <div className="mt-6 grid md:grid-cols-2 gap-4">
+                {serviceReviews.slice(0, 6).map((r) => (
+                  <article key={r.id} className="p-6 bg-white border border-stone-200/80 rounded-2xl">
+                    <div className="flex items-center gap-0.5">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <svg
+                          key={star}
+                          className={`w-3.5 h-3.5 ${star <= r.rating ? "text-amber-400" : "text-stone-200"}`}
+                          fill="currentColor"
+                          viewBox="0 0 20 20"
+                        >
+                          <path d={STAR_PATH} />
+                        </svg>
+                      ))}
+                    </div>
+                    <p className="mt-3 text-sm text-stone-600 leading-relaxed">{r.text}</p>
+                    <p className="mt-4 text-[12px] tracking-[0.2em] uppercase text-stone-400">{r.name}</p>
+                    {r.reply?.text ? (
+                      <div className="mt-4 pl-4 border-l-2 border-amber-200">
+                        <p className="text-[11px] tracking-[0.25em] uppercase text-amber-700 font-medium mb-1">
+                          Response from Berly Beauty
+                        </p>
+                        <p className="text-[13px] text-stone-500 leading-relaxed whitespace-pre-wrap">{r.reply.text}</p>
+                      </div>
+                    ) : null}
+                  </article>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-6 text-stone-500 text-sm">
+                No reviews for this service yet.{" "}
+                <Link to="/reviews" className="text-amber-700 hover:text-amber-800 underline underline-offset-4">
+                  Leave the first one
+                </Link>
+                .
+              </p>
+            )}
+          </section>
         </div>
-      </div>
+      </main>
+
+      <Footer />
+      <BookingModal
+        isOpen={isBookingModalOpen}
+        initialService={service.key}
+        onClose={() => setIsBookingModalOpen(false)}
+      />
     </div>
   );
 }
@@ -2408,16 +3502,22 @@ function BookingModal({
 /* ─────────────────────────────────────────────
    PUBLIC SITE
    ───────────────────────────────────────────── */
-function PublicSite({ onNavigate }: { onNavigate: (page: Page) => void }) {
-  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
-
+/**
+ * Shared behaviour of the public pages: any `a[href="#contact"]` opens the
+ * booking modal (pre-selecting its `data-service` and claiming its
+ * `data-promotion`, if set), and `.bb-reveal` elements fade in on scroll.
+ */
+function usePublicPageEffects(openBooking: (serviceKey: string, promotionId: string) => void) {
   useEffect(() => {
     const handleBookNowClick = (e: MouseEvent) => {
       const target = e.target as HTMLElement;
       const bookNowLink = target.closest('a[href="#contact"]');
       if (bookNowLink) {
         e.preventDefault();
-        setIsBookingModalOpen(true);
+        openBooking(
+          bookNowLink.getAttribute("data-service") ?? "",
+          bookNowLink.getAttribute("data-promotion") ?? ""
+        );
       }
     };
 
@@ -2457,18 +3557,48 @@ function PublicSite({ onNavigate }: { onNavigate: (page: Page) => void }) {
 
     return () => document.removeEventListener("click", handleBookNowClick);
   }, []);
+}
+
+function PublicSite({ section }: { section?: string }) {
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+  const [bookingService, setBookingService] = useState("");
+  const [bookingPromotion, setBookingPromotion] = useState("");
+  const { hash } = useLocation();
+
+  // Section routes (/services, /gallery …) and "/#team"-style links from other pages
+  // scroll to their part of the page ("#gallery/12" scrolls to the gallery).
+  useEffect(() => {
+    const targetId = section ?? hash.slice(1).split("/")[0];
+    if (!targetId) {
+      window.scrollTo(0, 0);
+      return;
+    }
+    document.getElementById(targetId)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [section, hash]);
+
+  usePublicPageEffects((serviceKey, promotionId) => {
+    setBookingService(serviceKey);
+    setBookingPromotion(promotionId);
+    setIsBookingModalOpen(true);
+  });
 
   return (
     <div className="font-sans antialiased">
       <Navbar />
       <Hero />
       <Services />
+      <Team />
       <Specials />
       <Gallery />
       <Reviews />
       <Contact />
-      <Footer onNavigate={onNavigate} />
-      <BookingModal isOpen={isBookingModalOpen} onClose={() => setIsBookingModalOpen(false)} />
+      <Footer />
+      <BookingModal
+        isOpen={isBookingModalOpen}
+        initialService={bookingService}
+        initialPromotion={bookingPromotion}
+        onClose={() => setIsBookingModalOpen(false)}
+      />
     </div>
   );
 }
@@ -2480,35 +3610,48 @@ export function App() {
   return (
     <SiteSettingsProvider>
       <AuthProvider>
-        <AppContent />
+        <BrowserRouter>
+          <AppContent />
+        </BrowserRouter>
       </AuthProvider>
     </SiteSettingsProvider>
   );
 }
 
 function AppContent() {
-  const [currentPage, setCurrentPage] = useState<Page>("home");
-  const { isAuthenticated, authChecked } = useAuth();
-
-  const navigate = (page: Page) => { setCurrentPage(page); window.scrollTo(0, 0); };
-
-  useEffect(() => {
-    if (!authChecked) return;
-    if (isAuthenticated && currentPage === "admin-login") navigate("admin-dashboard");
-    if (!isAuthenticated && currentPage === "admin-dashboard") navigate("admin-login");
-  }, [isAuthenticated, currentPage, authChecked]);
-
-  if (!authChecked && (currentPage === "admin-dashboard" || currentPage === "admin-login")) {
-    return (
-      <div className="min-h-screen bg-stone-950 flex items-center justify-center">
-        <div className="text-stone-400 text-[13px] tracking-widest uppercase">Loading…</div>
-      </div>
-    );
-  }
-
-  switch (currentPage) {
-    case "admin-login": return <AdminLogin onNavigate={navigate} />;
-    case "admin-dashboard": return isAuthenticated ? <AdminDashboard onNavigate={navigate} /> : <AdminLogin onNavigate={navigate} />;
-    default: return <PublicSite onNavigate={navigate} />;
-  }
+  return (
+    <Routes>
+      <Route path="/" element={<PublicSite />} />
+      <Route path="/services" element={<PublicSite section="services" />} />
+      <Route path="/services/:key" element={<ServiceDetailPage />} />
+      <Route path="/gallery" element={<PublicSite section="gallery" />} />
+      <Route path="/reviews" element={<PublicSite section="reviews" />} />
+
+      <Route path="/admin/login" element={<AdminLogin />} />
+      <Route
+        path="/admin/preview"
+        element={
+          <RequireAdmin>
+            <AdminPreview />
+          </RequireAdmin>
+        }
+      />
+      <Route
+        path="/admin"
+        element={
+          <RequireAdmin>
+            <AdminDashboard />
+          </RequireAdmin>
+        }
+      >
+        <Route index element={<Navigate to="appointments" replace />} />
+        {ADMIN_TABS.map((tab) => (
+          <Route key={tab.key} path={tab.key} element={<AdminTabRoute tab={tab.key} />} />
+        ))}
+        <Route path="*" element={<Navigate to="appointments" replace />} />
+      </Route>
+
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
 }
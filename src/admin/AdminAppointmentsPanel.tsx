@@ -0,0 +1,764 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  deleteAllAppointments,
+  deleteAppointment,
+  subscribeAppointments,
+  updateAppointmentStatus,
+  type AppointmentHistoryEntry,
+  type AppointmentStatus,
+  type FirestoreAppointment,
+} from "../api/firestoreService";
+import { can, currentAdminEmail, type AdminRole } from "../api/adminAuth";
+import { rescheduleAppointment } from "../api/serverApi";
+import {
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_STATUS_TRANSITIONS,
+  hasCapacity,
+  isStylistFree,
+  todayIsoDate,
+  type BookedSlot,
+} from "../booking";
+import { getTimeSlots, minutesToTime, timeToMinutes } from "../businessHours";
+import { getServiceLabel, useSiteSettings, type SiteSettings } from "../siteSettings";
+import { formatDateShort, formatTime24To12 } from "../utils/format";
+import { telLink, whatsappLink } from "../utils/phone";
+import { SpamBadge, SpamDetails } from "./SpamBadge";
+
+type Appointment = FirestoreAppointment & { id: string };
+type StatusFilter = "all" | AppointmentStatus;
+type DateFilter = "all" | "upcoming" | "today" | "past" | "on";
+
+const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  pending: "bg-amber-50 text-amber-800 border-amber-100",
+  confirmed: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  rescheduled: "bg-sky-50 text-sky-700 border-sky-200",
+  completed: "bg-stone-900 text-white border-stone-900",
+  "no-show": "bg-red-50 text-red-700 border-red-200",
+  cancelled: "bg-stone-100 text-stone-500 border-stone-200",
+};
+
+const STATUS_DOT_CLASSES: Record<AppointmentStatus, string> = {
+  pending: "bg-amber-400",
+  confirmed: "bg-emerald-500",
+  rescheduled: "bg-sky-500",
+  completed: "bg-stone-900",
+  "no-show": "bg-red-500",
+  cancelled: "bg-stone-300",
+};
+
+/** Statuses that can still be moved to another slot. */
+const RESCHEDULABLE: AppointmentStatus[] = ["pending", "confirmed", "rescheduled", "no-show"];
+
+function transitionLabel(from: AppointmentStatus, to: AppointmentStatus) {
+  if (to === "pending") return "Reopen";
+  if (to === "cancelled") return "Cancel Booking";
+  if (to === "confirmed" && from === "pending") return "Confirm Booking";
+  return `Mark ${APPOINTMENT_STATUS_LABELS[to]}`;
+}
+
+function StatusBadge({ status }: { status: AppointmentStatus }) {
+  return (
+    <span
+      className={
+        "inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium border " +
+        (STATUS_BADGE_CLASSES[status] ?? STATUS_BADGE_CLASSES.pending)
+      }
+    >
+      {APPOINTMENT_STATUS_LABELS[status] ?? status}
+    </span>
+  );
+}
+
+/** Stored history, or a single "requested" entry for bookings saved before history was kept. */
+function getHistory(a: FirestoreAppointment): AppointmentHistoryEntry[] {
+  if (a.history?.length) return a.history;
+  return [{ at: a.createdAt, actor: "client", status: "pending" }];
+}
+
+function getDuration(settings: SiteSettings, a: FirestoreAppointment) {
+  return (
+    a.durationMinutes ??
+    settings.services.items.find((x) => x.key === a.service)?.durationMinutes
+  );
+}
+
+/** "9:00 AM - 1:00 PM", using the stored duration or the service's current one. */
+function formatTimeRange(settings: SiteSettings, a: FirestoreAppointment) {
+  const duration = getDuration(settings, a);
+  const start = timeToMinutes(a.time);
+  if (!duration || !Number.isFinite(start)) return formatTime24To12(a.time);
+  return `${formatTime24To12(a.time)} - ${formatTime24To12(minutesToTime(start + duration))}`;
+}
+
+/** Preferred stylist's current name, falling back to the name saved on the booking. */
+function stylistName(settings: SiteSettings, a: FirestoreAppointment) {
+  return settings.team.members.find((m) => m.id === a.stylist)?.name || a.stylistName || "";
+}
+
+export function AdminAppointmentsPanel({ role }: { role: AdminRole | null }) {
+  const { settings } = useSiteSettings();
+  const canManage = can(role, "appointments.manage");
+  const canDelete = can(role, "appointments.delete");
+  const canOverbook = can(role, "appointments.overbook");
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [serviceFilter, setServiceFilter] = useState<string>("all");
+  const [stylistFilter, setStylistFilter] = useState<string>("all");
+  const [dateFilter, setDateFilter] = useState<DateFilter>("upcoming");
+  const [dateValue, setDateValue] = useState<string>(todayIsoDate());
+  const [selected, setSelected] = useState<Appointment | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [reschedule, setReschedule] = useState<{ date: string; time: string } | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeAppointments((list) => {
+      setAppointments(
+        list.filter((a): a is Appointment => typeof a.id === "string")
+      );
+      setLoaded(true);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Keep the open modal in sync with live updates.
+  useEffect(() => {
+    if (!selected) return;
+    const fresh = appointments.find((a) => a.id === selected.id);
+    if (!fresh) setSelected(null);
+    else if (fresh !== selected) setSelected(fresh);
+  }, [appointments]);
+
+  useEffect(() => {
+    setNote("");
+    setReschedule(null);
+  }, [selected?.id]);
+
+  const serviceOptions = useMemo(() => {
+    const keys = new Set(appointments.map((a) => a.service).filter(Boolean));
+    return Array.from(keys)
+      .map((key) => ({ key, label: getServiceLabel(settings, key) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [appointments, settings.services]);
+
+  // Stylists that appear on bookings, named as currently in settings when possible.
+  const stylistOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    appointments.forEach((a) => {
+      if (a.stylist) names.set(a.stylist, stylistName(settings, a) || a.stylist);
+    });
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [appointments, settings.team]);
+
+  const filtered = useMemo(() => {
+    const today = todayIsoDate();
+    return appointments.filter((a) => {
+      if (statusFilter !== "all" && a.status !== statusFilter) return false;
+      if (serviceFilter !== "all" && a.service !== serviceFilter) return false;
+      if (stylistFilter === "none" && a.stylist) return false;
+      if (stylistFilter !== "all" && stylistFilter !== "none" && a.stylist !== stylistFilter) {
+        return false;
+      }
+      if (dateFilter === "upcoming" && a.date < today) return false;
+      if (dateFilter === "today" && a.date !== today) return false;
+      if (dateFilter === "past" && a.date >= today) return false;
+      if (dateFilter === "on" && dateValue && a.date !== dateValue) return false;
+      return true;
+    });
+  }, [appointments, statusFilter, serviceFilter, stylistFilter, dateFilter, dateValue]);
+
+  const pendingCount = useMemo(
+    () => appointments.filter((a) => a.status === "pending").length,
+    [appointments]
+  );
+
+  const actor = () => currentAdminEmail() || "admin";
+
+  const setStatus = async (a: Appointment, status: AppointmentStatus, statusNote = "") => {
+    if (
+      status === "cancelled" &&
+      !window.confirm(`Cancel the booking from ${a.firstName} ${a.lastName}? The slot becomes free again.`)
+    ) {
+      return;
+    }
+    setBusyId(a.id);
+    const ok = await updateAppointmentStatus(a.id, status, actor(), statusNote.trim());
+    setBusyId(null);
+    if (!ok) window.alert("Could not update the appointment. Please try again.");
+    else setNote("");
+  };
+
+  const rescheduleTimes = useMemo(() => {
+    if (!selected || !reschedule?.date) return [];
+    return getTimeSlots(settings.hours, reschedule.date, new Date(), getDuration(settings, selected) ?? 0);
+  }, [selected, reschedule?.date, settings]);
+
+  const submitReschedule = async (a: Appointment) => {
+    if (!reschedule?.date || !reschedule.time) return;
+    if (reschedule.date === a.date && reschedule.time === a.time) {
+      setReschedule(null);
+      return;
+    }
+
+    // Owners and managers may overbook, but only on purpose; the server re-checks.
+    let allowOverbook = false;
+    const service = settings.services.items.find((x) => x.key === a.service);
+    if (service) {
+      const booked: BookedSlot[] = appointments
+        .filter((x) => x.id !== a.id && x.status !== "cancelled")
+        .map((x) => ({
+          service: x.service,
+          date: x.date,
+          time: x.time,
+          durationMinutes: getDuration(settings, x) ?? service.durationMinutes,
+          stylist: x.stylist,
+        }));
+      const duration = getDuration(settings, a) ?? service.durationMinutes;
+      const fits = hasCapacity(
+        booked,
+        { ...service, durationMinutes: duration },
+        reschedule.date,
+        reschedule.time
+      );
+      const stylistFree =
+        !a.stylist || isStylistFree(booked, a.stylist, reschedule.date, reschedule.time, duration);
+      if (!fits || !stylistFree) {
+        const problem = !fits
+          ? "All chairs for this service are taken at that time."
+          : `${stylistName(settings, a)} already has a booking then.`;
+        if (!canOverbook) {
+          window.alert(`${problem} Please choose another time.`);
+          return;
+        }
+        if (!window.confirm(`${problem} Reschedule anyway?`)) return;
+        allowOverbook = true;
+      }
+    }
+
+    setBusyId(a.id);
+    const result = await rescheduleAppointment(a.id, {
+      date: reschedule.date,
+      time: reschedule.time,
+      note: note.trim(),
+      allowOverbook,
+    });
+    setBusyId(null);
+    if (!result.ok) {
+      window.alert(result.message);
+      return;
+    }
+    setReschedule(null);
+    setNote("");
+  };
+
+  const remove = async (a: Appointment) => {
+    if (!window.confirm(`Delete the booking request from ${a.firstName} ${a.lastName}?`)) return;
+    setBusyId(a.id);
+    const ok = await deleteAppointment(a.id);
+    setBusyId(null);
+    if (!ok) window.alert("Could not delete the appointment. Please try again.");
+  };
+
+  const removeAll = async () => {
+    if (appointments.length === 0) return;
+    if (!window.confirm(`Delete ALL ${appointments.length} appointment(s)? This cannot be undone.`)) return;
+    const ok = await deleteAllAppointments();
+    if (!ok) window.alert("Could not delete appointments. Please try again.");
+  };
+
+  const clientMessage = (a: Appointment) =>
+    [
+      `Hi ${a.firstName}, this is Berly Beauty.`,
+      `Regarding your ${getServiceLabel(settings, a.service)} booking on ${formatDateShort(a.date)} at ${formatTime24To12(a.time)}.`,
+    ].join(" ");
+
+  const selectClass =
+    "px-3 py-2 border border-stone-200 bg-white text-sm rounded-xl outline-none focus:border-amber-600";
+  const actionBtn =
+    "px-3 py-1.5 text-[12px] border border-stone-200 text-stone-600 hover:text-stone-900 rounded-lg transition-colors disabled:opacity-40";
+
+  return (
+    <>
+      {/* Appointments header */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-serif text-stone-900">Appointments</h2>
+          <p className="text-stone-500 text-sm mt-1">
+            Booking requests submitted on the website.{" "}
+            {pendingCount > 0 ? (
+              <span className="text-amber-700 font-medium">{pendingCount} pending.</span>
+            ) : null}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className={selectClass}
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {APPOINTMENT_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={serviceFilter}
+            onChange={(e) => setServiceFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All services</option>
+            {serviceOptions.map((s) => (
+              <option key={s.key} value={s.key}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          {stylistOptions.length > 0 ? (
+            <select
+              value={stylistFilter}
+              onChange={(e) => setStylistFilter(e.target.value)}
+              className={selectClass}
+            >
+              <option value="all">All stylists</option>
+              <option value="none">No preference</option>
+              {stylistOptions.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <select
+            value={dateFilter}
+            onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+            className={selectClass}
+          >
+            <option value="upcoming">Upcoming</option>
+            <option value="today">Today</option>
+            <option value="past">Past</option>
+            <option value="on">On date…</option>
+            <option value="all">Any date</option>
+          </select>
+          {dateFilter === "on" ? (
+            <input
+              type="date"
+              value={dateValue}
+              onChange={(e) => setDateValue(e.target.value)}
+              className={selectClass}
+            />
+          ) : null}
+        </div>
+      </div>
+
+      <div className="bg-white border border-stone-200 shadow-sm overflow-hidden rounded-2xl">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[900px]">
+            <thead className="bg-stone-50">
+              <tr>
+                {["Client", "Service", "Date & Time", "Contact", "Status", "Actions"].map((h) => (
+                  <th
+                    key={h}
+                    className={`px-5 py-3.5 text-[11px] font-semibold text-stone-400 uppercase tracking-[0.25em] ${
+                      h === "Actions" ? "text-right" : "text-left"
+                    }`}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100">
+              {filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-16 text-center">
+                    <p className="text-stone-600 font-medium">
+                      {loaded ? "No appointments found" : "Loading appointments…"}
+                    </p>
+                    <p className="text-stone-400 text-sm mt-1">
+                      New booking requests will appear here as clients submit them.
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                filtered.map((a) => {
+                  const wa = whatsappLink(a.phone, clientMessage(a));
+                  const tel = telLink(a.phone);
+                  return (
+                    <tr key={a.id} className="hover:bg-stone-50/60 transition-colors">
+                      <td className="px-5 py-4">
+                        <button
+                          type="button"
+                          onClick={() => setSelected(a)}
+                          className="text-left"
+                          title="View details"
+                        >
+                          <p className="font-medium text-stone-900 text-sm hover:text-amber-800 transition-colors">
+                            {a.firstName} {a.lastName}
+                          </p>
+                          <p className="text-[12px] text-stone-400">
+                            {a.reference ? (
+                              <span className="font-mono text-stone-500 mr-1.5">{a.reference}</span>
+                            ) : null}
+                            {a.email}
+                          </p>
+                        </button>
+                      </td>
+                      <td className="px-5 py-4 text-sm text-stone-600">
+                        {getServiceLabel(settings, a.service)}
+                        {a.stylist ? (
+                          <span className="block text-[12px] text-stone-400">
+                            with {stylistName(settings, a)}
+                          </span>
+                        ) : null}
+                        {a.promo ? (
+                          <span className="block text-[12px] text-amber-700 font-mono" title={a.promo.title}>
+                            {a.promo.code}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-5 py-4 text-sm text-stone-600">
+                        {formatDateShort(a.date)}
+                        <span className="block text-[12px] text-stone-400">
+                          {formatTimeRange(settings, a)}
+                        </span>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex items-center gap-2">
+                          {wa ? (
+                            <a
+                              href={wa}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-3 py-1.5 text-[12px] border border-green-200 text-green-700 hover:bg-green-50 rounded-lg transition-colors"
+                            >
+                              WhatsApp
+                            </a>
+                          ) : null}
+                          {tel ? (
+                            <a href={tel} className={actionBtn}>
+                              Call
+                            </a>
+                          ) : null}
+                        </div>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex flex-col items-start gap-1">
+                          <StatusBadge status={a.status} />
+                          <SpamBadge spam={a.spam} />
+                        </div>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex items-center justify-end gap-2">
+                          {canManage && a.status === "pending" ? (
+                            <button
+                              type="button"
+                              disabled={busyId === a.id}
+                              onClick={() => setStatus(a, "confirmed")}
+                              className="px-3 py-1.5 text-[12px] bg-stone-900 text-white hover:bg-stone-800 rounded-lg transition-colors disabled:opacity-40"
+                            >
+                              Confirm
+                            </button>
+                          ) : null}
+                          {canManage ? (
+                            <select
+                              value=""
+                              disabled={busyId === a.id}
+                              onChange={(e) => {
+                                if (e.target.value) setStatus(a, e.target.value as AppointmentStatus);
+                              }}
+                              className={actionBtn + " bg-white outline-none"}
+                              aria-label="Update status"
+                            >
+                              <option value="">Update…</option>
+                              {APPOINTMENT_STATUS_TRANSITIONS[a.status]
+                                .filter((status) => !(a.status === "pending" && status === "confirmed"))
+                                .map((status) => (
+                                  <option key={status} value={status}>
+                                    {transitionLabel(a.status, status)}
+                                  </option>
+                                ))}
+                            </select>
+                          ) : null}
+                          {canDelete ? (
+                            <button
+                              type="button"
+                              disabled={busyId === a.id}
+                              onClick={() => remove(a)}
+                              className="px-3 py-1.5 text-[12px] border border-stone-200 text-stone-500 hover:text-red-600 hover:border-red-200 rounded-lg transition-colors disabled:opacity-40"
+                            >
+                              Delete
+                            </button>
+                          ) : null}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-5 py-3.5 border-t border-stone-100 flex items-center justify-between text-[12px] text-stone-400">
+          <p>
+            Showing <span className="text-stone-600">{filtered.length}</span> of{" "}
+            <span className="text-stone-600">{appointments.length}</span> appointment(s)
+          </p>
+          {canDelete ? (
+            <button
+              type="button"
+              onClick={removeAll}
+              disabled={appointments.length === 0}
+              className="hover:text-red-600 transition-colors disabled:opacity-40"
+            >
+              Delete all
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {/* Appointment modal */}
+      {selected && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4"
+          role="dialog"
+          aria-modal="true"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) setSelected(null);
+          }}
+        >
+          <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-3xl shadow-2xl">
+            <div className="p-6 bg-stone-950 text-white flex items-start justify-between">
+              <div>
+                <p className="text-[11px] tracking-[0.35em] uppercase text-white/60">
+                  Appointment{selected.reference ? ` · ${selected.reference}` : ""}
+                </p>
+                <h3 className="font-serif text-xl mt-1">
+                  {selected.firstName} {selected.lastName}
+                </h3>
+                <p className="text-white/60 text-sm mt-1">
+                  {getServiceLabel(settings, selected.service)}
+                  {selected.stylist ? ` with ${stylistName(settings, selected)}` : ""} ·{" "}
+                  {formatDateShort(selected.date)} · {formatTimeRange(settings, selected)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setSelected(null)}
+                className="w-9 h-9 rounded-full hover:bg-white/10 transition-colors flex items-center justify-center"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-6 space-y-5">
+              <div className="flex items-center justify-between gap-3">
+                <StatusBadge status={selected.status} />
+                <span className="text-[12px] text-stone-400">
+                  Requested {new Date(selected.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {selected.spam ? <SpamDetails spam={selected.spam} /> : null}
+
+              <dl className="grid sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-[11px] tracking-[0.25em] uppercase text-stone-400">Phone</dt>
+                  <dd className="text-stone-800 mt-1">{selected.phone || "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-[11px] tracking-[0.25em] uppercase text-stone-400">Email</dt>
+                  <dd className="text-stone-800 mt-1 break-all">
+                    {selected.email ? (
+                      <a href={`mailto:${selected.email}`} className="hover:text-amber-700">
+                        {selected.email}
+                      </a>
+                    ) : (
+                      "—"
+                    )}
+                  </dd>
+                </div>
+              </dl>
+
+              {selected.promo ? (
+                <div className="p-4 rounded-2xl border border-amber-200 bg-amber-50 text-sm text-amber-900">
+                  <p className="text-[11px] tracking-[0.25em] uppercase text-amber-700">Promo code</p>
+                  <p className="mt-1">
+                    <span className="font-mono tracking-widest">{selected.promo.code}</span>
+                    {" · "}
+                    {[selected.promo.title, selected.promo.discount].filter(Boolean).join(", ")}
+                  </p>
+                </div>
+              ) : null}
+
+              {selected.message?.trim() ? (
+                <div>
+                  <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400">Message</p>
+                  <p className="text-stone-700 leading-relaxed whitespace-pre-wrap mt-1">
+                    {selected.message}
+                  </p>
+                </div>
+              ) : null}
+
+              {/* Status + reschedule */}
+              {canManage ? (
+                <div className="p-4 rounded-2xl border border-stone-200 bg-stone-50/60 space-y-3">
+                  <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400">Update booking</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {APPOINTMENT_STATUS_TRANSITIONS[selected.status].map((status) => (
+                      <button
+                        key={status}
+                        type="button"
+                        disabled={busyId === selected.id}
+                        onClick={() => setStatus(selected, status, note)}
+                        className={
+                          status === "confirmed" || status === "completed"
+                            ? "px-4 py-2 text-[12px] bg-stone-900 text-white hover:bg-stone-800 rounded-full transition-colors disabled:opacity-40"
+                            : "px-4 py-2 text-[12px] border border-stone-200 bg-white text-stone-600 hover:text-stone-900 rounded-full transition-colors disabled:opacity-40"
+                        }
+                      >
+                        {transitionLabel(selected.status, status)}
+                      </button>
+                    ))}
+                    {RESCHEDULABLE.includes(selected.status) ? (
+                      <button
+                        type="button"
+                        disabled={busyId === selected.id}
+                        onClick={() =>
+                          setReschedule(reschedule ? null : { date: selected.date, time: selected.time })
+                        }
+                        className="px-4 py-2 text-[12px] border border-sky-200 bg-white text-sky-700 hover:bg-sky-50 rounded-full transition-colors disabled:opacity-40"
+                      >
+                        Reschedule…
+                      </button>
+                    ) : null}
+                  </div>
+
+                  {reschedule ? (
+                    <div className="grid sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                      <div>
+                        <label className="block text-[11px] text-stone-400 mb-1">New date</label>
+                        <input
+                          type="date"
+                          min={todayIsoDate()}
+                          value={reschedule.date}
+                          onChange={(e) => setReschedule({ date: e.target.value, time: "" })}
+                          className={selectClass + " w-full"}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-stone-400 mb-1">New time</label>
+                        <select
+                          value={reschedule.time}
+                          onChange={(e) => setReschedule({ ...reschedule, time: e.target.value })}
+                          className={selectClass + " w-full"}
+                        >
+                          <option value="">{rescheduleTimes.length ? "Select a time" : "Closed"}</option>
+                          {rescheduleTimes.map((t) => (
+                            <option key={t} value={t}>
+                              {formatTime24To12(t)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <button
+                        type="button"
+                        disabled={busyId === selected.id || !reschedule.time}
+                        onClick={() => submitReschedule(selected)}
+                        className="px-4 py-2 text-[12px] bg-sky-600 text-white hover:bg-sky-500 rounded-xl transition-colors disabled:opacity-40"
+                      >
+                        Save New Slot
+                      </button>
+                    </div>
+                  ) : null}
+
+                  <input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    maxLength={200}
+                    placeholder="Note for the timeline (optional)"
+                    className={selectClass + " w-full"}
+                  />
+                </div>
+              ) : null}
+
+              {/* Timeline */}
+              <div>
+                <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-3">History</p>
+                <ol className="relative border-l border-stone-200 ml-1.5 space-y-4">
+                  {getHistory(selected)
+                    .slice()
+                    .reverse()
+                    .map((entry, i) => (
+                      <li key={`${entry.at}_${i}`} className="pl-5 relative">
+                        <span
+                          className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${
+                            STATUS_DOT_CLASSES[entry.status] ?? STATUS_DOT_CLASSES.pending
+                          }`}
+                        />
+                        <p className="text-sm text-stone-800">
+                          {entry.actor === "client" && entry.status === "pending"
+                            ? "Requested by client"
+                            : APPOINTMENT_STATUS_LABELS[entry.status] ?? entry.status}
+                          {entry.actor !== "client" ? (
+                            <span className="text-stone-400"> · {entry.actor}</span>
+                          ) : null}
+                        </p>
+                        <p className="text-[12px] text-stone-400">{new Date(entry.at).toLocaleString()}</p>
+                        {entry.previous ? (
+                          <p className="text-[12px] text-stone-500 mt-0.5">
+                            Moved from {formatDateShort(entry.previous.date)},{" "}
+                            {formatTime24To12(entry.previous.time)}
+                          </p>
+                        ) : null}
+                        {entry.note ? (
+                          <p className="text-[12px] text-stone-600 mt-0.5 italic">“{entry.note}”</p>
+                        ) : null}
+                      </li>
+                    ))}
+                </ol>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+                <div className="flex items-center gap-2">
+                  {whatsappLink(selected.phone) ? (
+                    <a
+                      href={whatsappLink(selected.phone, clientMessage(selected))}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-5 py-2.5 bg-green-600 text-white hover:bg-green-500 rounded-full transition-colors text-sm"
+                    >
+                      WhatsApp
+                    </a>
+                  ) : null}
+                  {telLink(selected.phone) ? (
+                    <a
+                      href={telLink(selected.phone)}
+                      className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-stone-900 rounded-full transition-colors text-sm"
+                    >
+                      Call
+                    </a>
+                  ) : null}
+                </div>
+                {canDelete ? (
+                  <button
+                    type="button"
+                    onClick={() => remove(selected)}
+                    className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-red-600 hover:border-red-200 rounded-full transition-colors text-sm"
+                  >
+                    Delete
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
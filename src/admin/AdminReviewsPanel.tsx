@@ -0,0 +1,690 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  deleteReview,
+  deleteReviews,
+  getReviewStatus,
+  isFlaggedAsSpam,
+  REVIEW_LIMITS,
+  setReviewReply,
+  setReviewsStatus,
+  subscribeAllReviews,
+  updateReview,
+  type FirestoreReview,
+  type ReviewStatus,
+} from "../api/firestoreService";
+import { can, currentAdminEmail, type AdminRole } from "../api/adminAuth";
+import { getActiveServices, useSiteSettings } from "../siteSettings";
+import { formatTimestampShort } from "../utils/format";
+import { SpamBadge, SpamDetails } from "./SpamBadge";
+
+type Review = FirestoreReview & { id: string };
+type StatusFilter = "all" | ReviewStatus;
+
+const MAX_REVIEW_LEN = REVIEW_LIMITS.text;
+const MAX_REPLY_LEN = 1000;
+
+const STATUS_TABS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+];
+
+const STATUS_BADGES: Record<ReviewStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-amber-50 text-amber-800 border-amber-100" },
+  approved: { label: "Approved", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  rejected: { label: "Rejected", className: "bg-stone-100 text-stone-500 border-stone-200" },
+};
+
+function StatusBadge({ status }: { status: ReviewStatus }) {
+  const badge = STATUS_BADGES[status];
+  return (
+    <span
+      className={
+        "inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium border " +
+        badge.className
+      }
+    >
+      {badge.label}
+    </span>
+  );
+}
+
+function Stars({ rating, className }: { rating: number; className: string }) {
+  return (
+    <>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <svg
+          key={star}
+          className={className + " " + (star <= rating ? "text-amber-600" : "text-stone-300")}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path d="M10 15l-5.878 3.09 1.123-6.545L.489 6.91l6.572-.955L10 0l2.939 5.955 6.572.955-4.756 4.635 1.123 6.545z" />
+        </svg>
+      ))}
+    </>
+  );
+}
+
+export function AdminReviewsPanel({ role }: { role: AdminRole | null }) {
+  const canModerate = can(role, "reviews.moderate");
+  const { settings } = useSiteSettings();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [serviceFilter, setServiceFilter] = useState<string>("all");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [modal, setModal] = useState<Review | null>(null);
+  const [edit, setEdit] = useState<Pick<Review, "name" | "service" | "rating" | "text"> | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeAllReviews((list) => {
+      setReviews(list.filter((r): r is Review => typeof r.id === "string"));
+      setLoaded(true);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Keep the open modal in sync with live updates; drop selections that vanished.
+  useEffect(() => {
+    if (modal) {
+      const fresh = reviews.find((r) => r.id === modal.id);
+      if (!fresh) setModal(null);
+      else if (fresh !== modal) setModal(fresh);
+    }
+    setSelectedIds((prev) => {
+      const ids = new Set(reviews.map((r) => r.id));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [reviews]);
+
+  useEffect(() => {
+    setEdit(null);
+    setReplyDraft(modal?.reply?.text ?? "");
+  }, [modal?.id]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [statusFilter, serviceFilter, flaggedOnly]);
+
+  const counts = useMemo(() => {
+    const c: Record<StatusFilter, number> = { all: reviews.length, pending: 0, approved: 0, rejected: 0 };
+    reviews.forEach((r) => c[getReviewStatus(r)]++);
+    return c;
+  }, [reviews]);
+
+  const serviceOptions = useMemo(() => {
+    const set = new Set(reviews.map((r) => r.service).filter(Boolean));
+    return Array.from(set).sort();
+  }, [reviews]);
+
+  const editServiceOptions = useMemo(() => {
+    const titles = getActiveServices(settings).map((s) => s.title);
+    return modal && !titles.includes(modal.service) ? [modal.service, ...titles] : titles;
+  }, [settings.services, modal]);
+
+  const filtered = useMemo(() => {
+    return reviews
+      .filter((r) => statusFilter === "all" || getReviewStatus(r) === statusFilter)
+      .filter((r) => serviceFilter === "all" || r.service === serviceFilter)
+      .filter((r) => !flaggedOnly || isFlaggedAsSpam(r))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [reviews, statusFilter, serviceFilter, flaggedOnly]);
+
+  const allVisibleSelected = filtered.length > 0 && filtered.every((r) => selectedIds.has(r.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filtered.map((r) => r.id)));
+  };
+
+  const moderate = async (ids: string[], status: ReviewStatus) => {
+    if (ids.length === 0) return;
+    setBusy(true);
+    const ok = await setReviewsStatus(ids, status, currentAdminEmail() || "admin");
+    setBusy(false);
+    if (!ok) window.alert("Could not update the review(s). Please try again.");
+    else setSelectedIds(new Set());
+  };
+
+  const remove = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const label = ids.length === 1 ? "this review" : `${ids.length} reviews`;
+    if (!window.confirm(`Delete ${label}? This cannot be undone.`)) return;
+    setBusy(true);
+    const ok = ids.length === 1 ? await deleteReview(ids[0]) : await deleteReviews(ids);
+    setBusy(false);
+    if (!ok) window.alert("Could not delete the review(s). Please try again.");
+    else setSelectedIds(new Set());
+  };
+
+  const saveEdit = async () => {
+    if (!modal || !edit) return;
+    const name = edit.name.trim();
+    const text = edit.text.trim();
+    if (name.length < 2 || text.length < 10) {
+      window.alert("Name and review text are required (review at least 10 characters).");
+      return;
+    }
+    setBusy(true);
+    const ok = await updateReview(modal.id, {
+      name,
+      service: edit.service,
+      rating: edit.rating,
+      text: text.slice(0, MAX_REVIEW_LEN),
+    });
+    setBusy(false);
+    if (!ok) window.alert("Could not save the review. Please try again.");
+    else setEdit(null);
+  };
+
+  const saveReply = async (text: string | null) => {
+    if (!modal) return;
+    if (text === null && !window.confirm("Remove the public reply to this review?")) return;
+    setBusy(true);
+    const ok = await setReviewReply(
+      modal.id,
+      text === null
+        ? null
+        : {
+            text: text.trim().slice(0, MAX_REPLY_LEN),
+            date: new Date().toISOString(),
+          }
+    );
+    setBusy(false);
+    if (!ok) window.alert("Could not save the reply. Please try again.");
+    else if (text === null) setReplyDraft("");
+  };
+
+  const selectClass =
+    "px-3 py-2 border border-stone-200 bg-white text-sm rounded-xl outline-none focus:border-amber-600";
+  const actionBtn =
+    "px-3 py-1.5 text-[12px] border border-stone-200 text-stone-600 hover:text-stone-900 rounded-lg transition-colors disabled:opacity-40";
+  const inputClass =
+    "w-full px-4 py-2.5 border border-stone-200 rounded-xl text-sm outline-none focus:border-amber-600 transition-colors";
+
+  const selected = [...selectedIds];
+
+  return (
+    <>
+      {/* Reviews header */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-serif text-stone-900">Reviews</h2>
+          <p className="text-stone-500 text-sm mt-1">
+            New reviews wait here until approved; only approved reviews are shown on the website.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex items-center gap-1 p-1 bg-white border border-stone-200 rounded-xl">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                type="button"
+                onClick={() => setStatusFilter(tab.value)}
+                className={
+                  "px-3 py-1.5 text-[12px] rounded-lg transition-colors " +
+                  (statusFilter === tab.value
+                    ? "bg-stone-900 text-white"
+                    : "text-stone-500 hover:text-stone-800")
+                }
+              >
+                {tab.label}
+                <span
+                  className={
+                    "ml-1.5 " +
+                    (tab.value === "pending" && counts.pending > 0 && statusFilter !== "pending"
+                      ? "text-amber-700 font-medium"
+                      : "opacity-60")
+                  }
+                >
+                  {counts[tab.value]}
+                </span>
+              </button>
+            ))}
+          </div>
+          <select
+            value={serviceFilter}
+            onChange={(e) => setServiceFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All services</option>
+            {serviceOptions.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+            />
+            Likely spam only
+          </label>
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      {canModerate && selected.length > 0 ? (
+        <div className="mb-4 px-5 py-3 bg-stone-900 text-white rounded-2xl flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm">{selected.length} selected</p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => moderate(selected, "approved")}
+              className="px-4 py-1.5 text-[12px] bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-40"
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => moderate(selected, "rejected")}
+              className="px-4 py-1.5 text-[12px] bg-white/10 hover:bg-white/15 rounded-lg transition-colors disabled:opacity-40"
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => remove(selected)}
+              className="px-4 py-1.5 text-[12px] bg-white/10 hover:bg-red-600 rounded-lg transition-colors disabled:opacity-40"
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              onClick={() => setSelectedIds(new Set())}
+              className="px-3 py-1.5 text-[12px] text-white/60 hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="bg-white border border-stone-200 shadow-sm overflow-hidden rounded-2xl">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[960px]">
+            <thead className="bg-stone-50">
+              <tr>
+                {canModerate ? (
+                  <th className="pl-5 py-3.5 w-8">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      disabled={filtered.length === 0}
+                      className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+                      aria-label="Select all"
+                    />
+                  </th>
+                ) : null}
+                {["Client", "Service", "Rating", "Date", "Review", "Status", "Actions"].map((h) => (
+                  <th
+                    key={h}
+                    className={`px-5 py-3.5 text-[11px] font-semibold text-stone-400 uppercase tracking-[0.25em] ${
+                      h === "Actions" ? "text-right" : "text-left"
+                    }`}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100">
+              {filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={canModerate ? 8 : 7} className="px-6 py-16 text-center">
+                    <p className="text-stone-600 font-medium">
+                      {!loaded
+                        ? "Loading reviews…"
+                        : statusFilter === "pending"
+                          ? "Nothing waiting for approval"
+                          : "No reviews found"}
+                    </p>
+                    <p className="text-stone-400 text-sm mt-1">
+                      New reviews will appear here when clients submit them.
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                filtered.map((r) => {
+                  const status = getReviewStatus(r);
+                  return (
+                    <tr key={r.id} className="hover:bg-stone-50/60 transition-colors">
+                      {canModerate ? (
+                        <td className="pl-5 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(r.id)}
+                            onChange={() => toggleSelected(r.id)}
+                            className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+                            aria-label={`Select review from ${r.name}`}
+                          />
+                        </td>
+                      ) : null}
+                      <td className="px-5 py-4">
+                        <p className="font-medium text-stone-900 text-sm">{r.name}</p>
+                      </td>
+                      <td className="px-5 py-4 text-sm text-stone-600">{r.service}</td>
+                      <td className="px-5 py-4">
+                        <div className="flex items-center gap-1">
+                          <Stars rating={r.rating} className="w-3.5 h-3.5" />
+                          <span className="text-[12px] text-stone-400 ml-1">{r.rating}/5</span>
+                        </div>
+                      </td>
+                      <td className="px-5 py-4 text-sm text-stone-600">{formatTimestampShort(r.date)}</td>
+                      <td className="px-5 py-4 text-sm text-stone-600 max-w-[320px]">
+                        <button
+                          type="button"
+                          onClick={() => setModal(r)}
+                          className="text-left hover:text-stone-900 transition-colors w-full"
+                          title="View full review"
+                        >
+                          <p className="overflow-hidden text-ellipsis whitespace-nowrap">{r.text}</p>
+                          {r.reply ? (
+                            <p className="text-[11px] text-amber-700 mt-0.5">Replied</p>
+                          ) : null}
+                        </button>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex flex-col items-start gap-1">
+                          <StatusBadge status={status} />
+                          <SpamBadge spam={r.spam} />
+                        </div>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex items-center justify-end gap-2">
+                          {canModerate && status !== "approved" ? (
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => moderate([r.id], "approved")}
+                              className="px-3 py-1.5 text-[12px] bg-stone-900 text-white hover:bg-stone-800 rounded-lg transition-colors disabled:opacity-40"
+                            >
+                              Approve
+                            </button>
+                          ) : null}
+                          {canModerate && status !== "rejected" ? (
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => moderate([r.id], "rejected")}
+                              className={actionBtn}
+                            >
+                              Reject
+                            </button>
+                          ) : null}
+                          <button type="button" onClick={() => setModal(r)} className={actionBtn}>
+                            View
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-5 py-3.5 border-t border-stone-100 flex items-center justify-between text-[12px] text-stone-400">
+          <p>
+            Showing <span className="text-stone-600">{filtered.length}</span> of{" "}
+            <span className="text-stone-600">{reviews.length}</span> review(s)
+          </p>
+          <p>Reject spam or abuse; delete only what you never want to see again.</p>
+        </div>
+      </div>
+
+      {/* Review modal */}
+      {modal && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4"
+          role="dialog"
+          aria-modal="true"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) setModal(null);
+          }}
+        >
+          <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-3xl shadow-2xl">
+            <div className="p-6 bg-stone-950 text-white flex items-start justify-between">
+              <div>
+                <p className="text-[11px] tracking-[0.35em] uppercase text-white/60">Review</p>
+                <h3 className="font-serif text-xl mt-1">{modal.name}</h3>
+                <p className="text-white/60 text-sm mt-1">
+                  {modal.service} · {formatTimestampShort(modal.date)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setModal(null)}
+                className="w-9 h-9 rounded-full hover:bg-white/10 transition-colors flex items-center justify-center"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-6 space-y-5">
+              <div className="flex items-center justify-between gap-3">
+                <StatusBadge status={getReviewStatus(modal)} />
+                {modal.moderatedAt ? (
+                  <span className="text-[12px] text-stone-400">
+                    Moderated {new Date(modal.moderatedAt).toLocaleString()}
+                    {modal.moderatedBy ? ` · ${modal.moderatedBy}` : ""}
+                  </span>
+                ) : null}
+              </div>
+              <SpamDetails spam={modal.spam} />
+
+              {edit ? (
+                <div className="space-y-4">
+                  <div className="grid sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-[11px] text-stone-400 mb-1">Name</label>
+                      <input
+                        value={edit.name}
+                        onChange={(e) => setEdit({ ...edit, name: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[11px] text-stone-400 mb-1">Service</label>
+                      <select
+                        value={edit.service}
+                        onChange={(e) => setEdit({ ...edit, service: e.target.value })}
+                        className={inputClass}
+                      >
+                        {editServiceOptions.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[11px] text-stone-400 mb-1">Rating</label>
+                      <select
+                        value={edit.rating}
+                        onChange={(e) => setEdit({ ...edit, rating: Number(e.target.value) })}
+                        className={inputClass}
+                      >
+                        {[5, 4, 3, 2, 1].map((n) => (
+                          <option key={n} value={n}>
+                            {n} star{n !== 1 ? "s" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-stone-400 mb-1">Review</label>
+                    <textarea
+                      rows={5}
+                      maxLength={MAX_REVIEW_LEN}
+                      value={edit.text}
+                      onChange={(e) => setEdit({ ...edit, text: e.target.value })}
+                      className={inputClass + " resize-none"}
+                    />
+                    <p className="text-[11px] text-stone-400 mt-1 text-right">
+                      {edit.text.length}/{MAX_REVIEW_LEN}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center gap-1">
+                    <Stars rating={modal.rating} className="w-4 h-4" />
+                    <span className="text-sm text-stone-500 ml-2">{modal.rating}/5</span>
+                  </div>
+                  <p className="text-stone-700 leading-relaxed whitespace-pre-wrap">{modal.text}</p>
+                </>
+              )}
+
+              {/* Owner reply */}
+              {canModerate ? (
+                <div className="p-4 rounded-2xl border border-stone-200 bg-stone-50/60 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400">
+                      Response from Berly Beauty
+                    </p>
+                    {modal.reply ? (
+                      <span className="text-[12px] text-stone-400">
+                        Replied {formatTimestampShort(modal.reply.date)}
+                      </span>
+                    ) : null}
+                  </div>
+                  <textarea
+                    rows={3}
+                    maxLength={MAX_REPLY_LEN}
+                    value={replyDraft}
+                    onChange={(e) => setReplyDraft(e.target.value)}
+                    placeholder="Write a public reply (shown under the review once it is approved)…"
+                    className={inputClass + " resize-none bg-white"}
+                  />
+                  <div className="flex items-center justify-end gap-2">
+                    {modal.reply ? (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => saveReply(null)}
+                        className={actionBtn}
+                      >
+                        Remove Reply
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      disabled={
+                        busy || !replyDraft.trim() || replyDraft.trim() === modal.reply?.text
+                      }
+                      onClick={() => saveReply(replyDraft)}
+                      className="px-3 py-1.5 text-[12px] bg-stone-900 text-white hover:bg-stone-800 rounded-lg transition-colors disabled:opacity-40"
+                    >
+                      {modal.reply ? "Update Reply" : "Post Reply"}
+                    </button>
+                  </div>
+                </div>
+              ) : modal.reply ? (
+                <div className="p-4 rounded-2xl border border-stone-200 bg-stone-50/60">
+                  <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2">
+                    Response from Berly Beauty
+                  </p>
+                  <p className="text-sm text-stone-700 whitespace-pre-wrap">{modal.reply.text}</p>
+                </div>
+              ) : null}
+
+              {canModerate ? (
+                <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => remove([modal.id])}
+                    className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-red-600 hover:border-red-200 rounded-full transition-colors text-sm disabled:opacity-40"
+                  >
+                    Delete
+                  </button>
+                  {edit ? (
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setEdit(null)}
+                        className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-stone-900 rounded-full transition-colors text-sm"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={saveEdit}
+                        className="px-5 py-2.5 bg-stone-900 text-white hover:bg-stone-800 rounded-full transition-colors text-sm disabled:opacity-40"
+                      >
+                        Save Changes
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setEdit({
+                            name: modal.name,
+                            service: modal.service,
+                            rating: modal.rating,
+                            text: modal.text,
+                          })
+                        }
+                        className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-stone-900 rounded-full transition-colors text-sm"
+                      >
+                        Edit
+                      </button>
+                      {getReviewStatus(modal) !== "rejected" ? (
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => moderate([modal.id], "rejected")}
+                          className="px-5 py-2.5 border border-stone-200 text-stone-600 hover:text-stone-900 rounded-full transition-colors text-sm disabled:opacity-40"
+                        >
+                          Reject
+                        </button>
+                      ) : null}
+                      {getReviewStatus(modal) !== "approved" ? (
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => moderate([modal.id], "approved")}
+                          className="px-5 py-2.5 bg-stone-900 text-white hover:bg-stone-800 rounded-full transition-colors text-sm disabled:opacity-40"
+                        >
+                          Approve
+                        </button>
+                      ) : null}
+                    </div>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
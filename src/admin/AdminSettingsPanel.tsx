@@ -2,9 +2,42 @@ import { useEffect, useMemo, useState } from "react";
 import {
   buildGalleryImageList,
   DEFAULT_SITE_SETTINGS,
+  EMPTY_SERVICE,
+  EMPTY_GALLERY_IMAGE_META,
+  EMPTY_PROMOTION,
+  GALLERY_MANIFEST_COUNT,
+  GALLERY_MANIFEST_FOLDER,
+  EMPTY_TEAM_MEMBER,
+  galleryImageKey,
+  getGalleryImageMeta,
+  isVideoUrl,
+  type GalleryImageMeta,
+  type Promotion,
+  type ResponsiveImage,
+  type ServiceIcon,
+  type SiteService,
   type SiteSettings,
-  useSiteSettings,
+  type PublishedRevision,
+  type TeamMember,
+  useSettingsDraft,
 } from "../siteSettings";
+import {
+  formatWeeklyHours,
+  southAfricanPublicHolidays,
+  WEEK_DISPLAY_ORDER,
+  WEEKDAY_LONG,
+  WEEKDAY_SHORT,
+  type DayHours,
+} from "../businessHours";
+import {
+  describePromotionSchedule,
+  getPromotionStatus,
+  normalizePromoCode,
+  type PromotionStatus,
+} from "../promotions";
+import { formatDuration } from "../utils/format";
+import { SettingsHistory } from "./SettingsHistory";
+import { UploadButton } from "./UploadButton";
 
 function clampInt(value: string, min: number, max: number) {
   const n = Math.floor(Number(value));
@@ -17,18 +50,67 @@ function normalizeUrlInput(url: string) {
   return v;
 }
 
+const SERVICE_ICON_OPTIONS: Array<{ value: ServiceIcon; label: string }> = [
+  { value: "wig", label: "Wig / profile" },
+  { value: "braids", label: "Braids / bulb" },
+  { value: "sparkle", label: "Sparkle" },
+  { value: "grid", label: "Grid (locs)" },
+  { value: "bolt", label: "Bolt" },
+  { value: "nails", label: "Nails / polish" },
+  { value: "fabric", label: "Fabric / attire" },
+  { value: "heart", label: "Heart (wellness)" },
+  { value: "brush", label: "Brush (makeup)" },
+];
+
+const SERVICE_DURATION_OPTIONS = [15, 30, 45, 60, 75, 90, 120, 150, 180, 240, 300, 360, 480];
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function uniqueServiceKey(base: string, taken: string[]) {
+  const root = slugify(base) || "service";
+  let key = root;
+  let n = 2;
+  while (taken.includes(key)) key = `${root}-${n++}`;
+  return key;
+}
+
 function promptForUrl(label: string, current: string) {
   const next = window.prompt(label, current);
   if (next == null) return null;
   return normalizeUrlInput(next);
 }
 
+/** A promo code used by more than one special, or "" (the booking form would match only one). */
+function duplicatePromoCode(promotions: Promotion[]) {
+  const seen = new Set<string>();
+  for (const p of promotions) {
+    const code = normalizePromoCode(p.code);
+    if (!code) continue;
+    if (seen.has(code)) return code;
+    seen.add(code);
+  }
+  return "";
+}
+
 export function AdminSettingsPanel() {
-  const { settings, setSettings, resetSettings } = useSiteSettings();
+  // `draft` is the form being edited; `saved.draft` is the last saved draft.
+  const saved = useSettingsDraft();
 
-  const [draft, setDraft] = useState<SiteSettings>(() => settings);
-  const [savedAt, setSavedAt] = useState<string>("");
+  const [draft, setDraft] = useState<SiteSettings>(() => saved.draft);
+  const [notice, setNotice] = useState<string>("");
   const [error, setError] = useState<string>("");
+  const [busy, setBusy] = useState(false);
+
+  // Start from the saved draft once it has loaded.
+  useEffect(() => {
+    if (!saved.loading) setDraft(saved.draft);
+  }, [saved.loading]);
   const [newImageUrl, setNewImageUrl] = useState<string>("");
 
   const [nailsPreviewFailed, setNailsPreviewFailed] = useState<Record<string, boolean>>({});
@@ -37,24 +119,251 @@ export function AdminSettingsPanel() {
   }, [draft.gallery.assetVersion, JSON.stringify(draft.gallery.featuredNails.imageUrls || [])]);
 
   const isDirty = useMemo(
-    () => JSON.stringify(draft) !== JSON.stringify(settings),
-    [draft, settings]
+    () => JSON.stringify(draft) !== JSON.stringify(saved.draft),
+    [draft, saved.draft]
+  );
+  const isUnpublished = useMemo(
+    () => JSON.stringify(draft) !== JSON.stringify(saved.published),
+    [draft, saved.published]
   );
 
-  const onSave = () => {
-    setSettings(draft);
-    setSavedAt(new Date().toLocaleTimeString());
-    setError("");
+  // Checked before anything is saved, so a duplicate code never reaches the draft or the live site.
+  const checkDraft = () => {
+    const code = duplicatePromoCode(draft.promotions.items);
+    if (!code) return true;
+    setNotice("");
+    setError(`More than one special uses the promo code ${code}. Give each special its own code.`);
+    return false;
+  };
+
+  const onSave = async () => {
+    if (!checkDraft()) return;
+    setBusy(true);
+    const ok = await saved.saveDraft(draft);
+    setBusy(false);
+    setNotice(ok ? `Draft saved at ${new Date().toLocaleTimeString()}. Publish to put it live.` : "");
+    setError(ok ? "" : "Could not save the draft. Check your connection and try again.");
+  };
+
+  const onPublish = async () => {
+    if (!checkDraft()) return;
+    if (!window.confirm("Publish these settings to the live website?")) return;
+    setBusy(true);
+    const ok = await saved.publish(draft);
+    setBusy(false);
+    setNotice(ok ? `Published at ${new Date().toLocaleTimeString()}` : "");
+    setError(ok ? "" : "Could not publish. Check your connection and try again.");
+  };
+
+  const onRestore = async (revision: PublishedRevision) => {
+    const when = new Date(revision.publishedAt).toLocaleString();
+    const warning = isDirty ? " Your unsaved edits will be discarded." : "";
+    if (!window.confirm(`Publish the version from ${when} again? It goes live straight away.${warning}`)) return;
+    setBusy(true);
+    const restored = await saved.restore(revision.id);
+    setBusy(false);
+    if (restored) setDraft(restored);
+    setNotice(restored ? `Restored the version from ${when}` : "");
+    setError(restored ? "" : "Could not restore that version. Check your connection and try again.");
+  };
+
+  // Open the tab first (pop-up blockers), then save; the preview follows the saved draft live.
+  const onPreview = () => {
+    window.open("/admin/preview", "_blank");
+    if (isDirty) onSave();
   };
 
   const onResetDefaults = () => {
-    if (!window.confirm("Reset website settings to defaults?")) return;
-    resetSettings();
+    if (!window.confirm("Reset the draft to the default settings? The live site is unchanged until you publish.")) return;
     setDraft(DEFAULT_SITE_SETTINGS);
-    setSavedAt("");
+    setNotice("");
     setError("");
   };
 
+  // ─────────────────────────────────────────────
+  // Opening hours
+  // ─────────────────────────────────────────────
+  const [newClosedDate, setNewClosedDate] = useState<string>("");
+  const [newClosedLabel, setNewClosedLabel] = useState<string>("");
+
+  const updateDayHours = (dayIndex: number, patch: Partial<DayHours>) => {
+    setDraft((p) => ({
+      ...p,
+      hours: {
+        ...p.hours,
+        weekly: p.hours.weekly.map((d, i) => (i === dayIndex ? { ...d, ...patch } : d)),
+      },
+    }));
+  };
+
+  const addClosedDates = (entries: Array<{ date: string; label: string }>) => {
+    setDraft((p) => {
+      const existing = new Set(p.hours.closedDates.map((x) => x.date));
+      const additions = entries.filter((x) => x.date && !existing.has(x.date));
+      if (additions.length === 0) return p;
+      return {
+        ...p,
+        hours: {
+          ...p.hours,
+          closedDates: [...p.hours.closedDates, ...additions].sort((a, b) =>
+            a.date.localeCompare(b.date)
+          ),
+        },
+      };
+    });
+  };
+
+  const removeClosedDate = (date: string) => {
+    setDraft((p) => ({
+      ...p,
+      hours: {
+        ...p.hours,
+        closedDates: p.hours.closedDates.filter((x) => x.date !== date),
+      },
+    }));
+  };
+
+  // ─────────────────────────────────────────────
+  // Services
+  // ─────────────────────────────────────────────
+  // Published keys are referenced by appointments, so only unpublished
+  // services get their key re-derived from the title.
+  const savedServiceKeys = useMemo(
+    () => saved.published.services.items.map((x) => x.key),
+    [saved.published.services.items]
+  );
+
+  const addService = () => {
+    setDraft((p) => {
+      const taken = p.services.items.map((x) => x.key);
+      const item: SiteService = {
+        ...EMPTY_SERVICE,
+        key: uniqueServiceKey("New Service", taken),
+        title: "New Service",
+        category: "Hair",
+      };
+      return { ...p, services: { ...p.services, items: [...p.services.items, item] } };
+    });
+  };
+
+  const updateService = (index: number, patch: Partial<SiteService>) => {
+    setDraft((p) => {
+      const items = p.services.items.map((x, i) => {
+        if (i !== index) return x;
+        const next = { ...x, ...patch };
+        if (patch.title !== undefined && !savedServiceKeys.includes(x.key)) {
+          const taken = p.services.items
+            .filter((_, j) => j !== index)
+            .map((y) => y.key);
+          next.key = uniqueServiceKey(patch.title, taken);
+        }
+        return next;
+      });
+      const oldKey = p.services.items[index]?.key;
+      const newKey = items[index]?.key;
+      if (!oldKey || oldKey === newKey) return { ...p, services: { ...p.services, items } };
+      // Keep photo tags pointing at an unsaved service whose key followed its title.
+      const imageMeta = Object.fromEntries(
+        Object.entries(p.gallery.imageMeta).map(([src, meta]) => [
+          src,
+          { ...meta, services: meta.services.map((k) => (k === oldKey ? newKey : k)) },
+        ])
+      );
+      return {
+        ...p,
+        services: { ...p.services, items },
+        gallery: { ...p.gallery, imageMeta },
+      };
+    });
+  };
+
+  const updatePriceRow = (index: number, row: number, patch: Partial<SiteService["priceTable"][number]>) => {
+    const item = draft.services.items[index];
+    if (!item) return;
+    updateService(index, {
+      priceTable: item.priceTable.map((x, i) => (i === row ? { ...x, ...patch } : x)),
+    });
+  };
+
+  // Gallery photos shown on each service's detail page.
+  const serviceGalleryImages = useMemo(() => buildGalleryImageList(draft), [draft.gallery]);
+
+  const toggleServiceImage = (src: string, serviceKey: string) => {
+    updateImageMeta(src, (meta) => ({ services: toggleInList(meta.services, serviceKey) }));
+  };
+
+  const moveService = (index: number, direction: -1 | 1) => {
+    setDraft((p) => {
+      const list = [...p.services.items];
+      const next = index + direction;
+      if (next < 0 || next >= list.length) return p;
+      const temp = list[index];
+      list[index] = list[next];
+      list[next] = temp;
+      return { ...p, services: { ...p.services, items: list } };
+    });
+  };
+
+  const removeService = (index: number) => {
+    const item = draft.services.items[index];
+    if (!item) return;
+    if (
+      savedServiceKeys.includes(item.key) &&
+      !window.confirm(
+        `Delete “${item.title}”? Existing bookings will only show its key. Retire it instead to keep the name.`
+      )
+    ) {
+      return;
+    }
+    setDraft((p) => ({
+      ...p,
+      services: {
+        ...p.services,
+        items: p.services.items.filter((_, i) => i !== index),
+      },
+    }));
+  };
+
+  // ─────────────────────────────────────────────
+  // Team
+  // ─────────────────────────────────────────────
+  const setTeamMembers = (fn: (members: TeamMember[]) => TeamMember[]) => {
+    setDraft((p) => ({ ...p, team: { ...p.team, members: fn(p.team.members) } }));
+  };
+
+  const addTeamMember = () => {
+    const id = `tm_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    setTeamMembers((list) => [...list, { ...EMPTY_TEAM_MEMBER, id, name: "New Stylist" }]);
+  };
+
+  const updateTeamMember = (id: string, patch: Partial<TeamMember>) => {
+    setTeamMembers((list) => list.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
+
+  const moveTeamMember = (index: number, direction: -1 | 1) => {
+    setTeamMembers((list) => {
+      const next = index + direction;
+      if (next < 0 || next >= list.length) return list;
+      const copy = [...list];
+      [copy[index], copy[next]] = [copy[next], copy[index]];
+      return copy;
+    });
+  };
+
+  const removeTeamMember = (member: TeamMember) => {
+    if (
+      !window.confirm(
+        `Remove ${member.name || "this team member"}? Existing bookings keep their name. Hide them instead to keep the profile.`
+      )
+    ) {
+      return;
+    }
+    setTeamMembers((list) => list.filter((x) => x.id !== member.id));
+  };
+
+  const toggleInList = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((x) => x !== value) : [...list, value];
+
   // ─────────────────────────────────────────────
   // Promotions
   // ─────────────────────────────────────────────
@@ -69,13 +378,11 @@ export function AdminSettingsPanel() {
         ...p.promotions,
         items: [
           {
+            ...EMPTY_PROMOTION,
             id,
             title: "New Special",
-            description: "",
             badge: "Special",
             ctaText: "Book on WhatsApp",
-            imageUrl: "",
-            validUntil: "",
           },
           ...p.promotions.items,
         ],
@@ -296,9 +603,7 @@ export function AdminSettingsPanel() {
   // ─────────────────────────────────────────────
   // Gallery: custom URLs + positioning
   // ─────────────────────────────────────────────
-  const addCustomImageUrl = () => {
-    const url = normalizeUrlInput(newImageUrl);
-    if (!url) return;
+  const addCustomImage = (url: string, responsive?: ResponsiveImage, poster?: string) => {
     setDraft((prev) => ({
       ...prev,
       gallery: {
@@ -307,6 +612,14 @@ export function AdminSettingsPanel() {
         customImages: [url, ...prev.gallery.customImages],
       },
     }));
+    if (responsive) setImageVariants(url, responsive);
+    if (poster) updateImageMeta(url, () => ({ poster }));
+  };
+
+  const addCustomImageUrl = () => {
+    const url = normalizeUrlInput(newImageUrl);
+    if (!url) return;
+    addCustomImage(url);
     setNewImageUrl("");
   };
 
@@ -347,6 +660,33 @@ export function AdminSettingsPanel() {
     });
   };
 
+  // ─────────────────────────────────────────────
+  // Gallery: per-image details (tags, caption, alt)
+  // ─────────────────────────────────────────────
+  const [detailsImage, setDetailsImage] = useState<string | null>(null);
+
+  const updateImageMeta = (
+    src: string,
+    patch: (meta: GalleryImageMeta) => Partial<GalleryImageMeta>
+  ) => {
+    setDraft((p) => {
+      const id = galleryImageKey(src);
+      const current = p.gallery.imageMeta[id] ?? EMPTY_GALLERY_IMAGE_META;
+      // Entries are cleared rather than deleted: settings are saved with a merge,
+      // which would keep a removed key.
+      const imageMeta = { ...p.gallery.imageMeta, [id]: { ...current, ...patch(current) } };
+      return { ...p, gallery: { ...p.gallery, imageMeta } };
+    });
+  };
+
+  /** Remember an upload's resized variants so the site can serve them via srcset. */
+  const setImageVariants = (url: string, responsive: ResponsiveImage) => {
+    updateImageMeta(url, () => ({ responsive }));
+  };
+
+  const detailsMeta = detailsImage ? getGalleryImageMeta(draft, detailsImage) : null;
+  const detailsVideo = detailsImage ? isVideoUrl(detailsImage) : false;
+
   const [dragFromIndex, setDragFromIndex] = useState<number | null>(null);
   const [dragFromNumberedIndex, setDragFromNumberedIndex] = useState<number | null>(null);
 
@@ -382,23 +722,35 @@ export function AdminSettingsPanel() {
           </button>
           <button
             onClick={() => {
-              setDraft(settings);
-              setSavedAt("");
+              setDraft(saved.draft);
+              setNotice("");
               setError("");
             }}
-            disabled={!isDirty}
+            disabled={!isDirty || busy}
             className={btnSecondary}
           >
             Discard
           </button>
-          <button onClick={onSave} disabled={!isDirty} className={btnPrimary}>
-            Save Changes
+          <button onClick={onPreview} disabled={saved.loading || busy} className={btnSecondary}>
+            Preview as Visitor
+          </button>
+          <button onClick={onSave} disabled={!isDirty || busy} className={btnSecondary}>
+            Save Draft
+          </button>
+          <button onClick={onPublish} disabled={!isUnpublished || saved.loading || busy} className={btnPrimary}>
+            Publish
           </button>
         </div>
       </div>
 
+      {isUnpublished && !saved.loading ? (
+        <p className="-mt-4 text-[12px] text-amber-700">
+          {isDirty ? "Unsaved changes. " : ""}The live website doesn't include these edits until you publish.
+        </p>
+      ) : null}
+
       {/* Status */}
-      {(error || savedAt) && (
+      {(error || notice) && (
         <div
           className={
             "p-4 rounded-2xl border text-sm " +
@@ -407,7 +759,7 @@ export function AdminSettingsPanel() {
               : "bg-emerald-50 border-emerald-200 text-emerald-700")
           }
         >
-          {error ? error : `Saved at ${savedAt}`}
+          {error ? error : notice}
         </div>
       )}
 
@@ -480,21 +832,6 @@ export function AdminSettingsPanel() {
             </div>
           </div>
 
-          <div>
-            <label className={labelClass}>Hours</label>
-            <input
-              value={draft.contact.hours}
-              onChange={(e) =>
-                setDraft((p) => ({
-                  ...p,
-                  contact: { ...p.contact, hours: e.target.value },
-                }))
-              }
-              className={inputClass}
-              placeholder="Mon - Sun: 7:00 AM - 7:00 PM"
-            />
-          </div>
-
           <div>
             <label className={labelClass}>Address (one line per row)</label>
             <textarea
@@ -604,61 +941,769 @@ export function AdminSettingsPanel() {
                 </p>
               </div>
 
-              <div className="grid sm:grid-cols-2 gap-4">
-                <div>
-                  <label className={labelClass}>Video Fit</label>
-                  <select
-                    value={draft.media.heroVideoFit}
-                    onChange={(e) =>
-                      setDraft((p) => ({
-                        ...p,
-                        media: {
-                          ...p.media,
-                          heroVideoFit:
-                            e.target.value as SiteSettings["media"]["heroVideoFit"],
-                        },
-                      }))
-                    }
-                    className={inputClass}
-                  >
-                    <option value="cover">Cover (fills, may crop)</option>
-                    <option value="contain">Contain (full, no crop)</option>
-                  </select>
-                </div>
-                <div>
-                  <label className={labelClass}>Video Position</label>
-                  <input
-                    value={draft.media.heroVideoPosition}
-                    onChange={(e) =>
-                      setDraft((p) => ({
-                        ...p,
-                        media: { ...p.media, heroVideoPosition: e.target.value },
-                      }))
-                    }
-                    className={inputClass}
-                    placeholder="50% 15%"
-                  />
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Video Fit</label>
+                  <select
+                    value={draft.media.heroVideoFit}
+                    onChange={(e) =>
+                      setDraft((p) => ({
+                        ...p,
+                        media: {
+                          ...p.media,
+                          heroVideoFit:
+                            e.target.value as SiteSettings["media"]["heroVideoFit"],
+                        },
+                      }))
+                    }
+                    className={inputClass}
+                  >
+                    <option value="cover">Cover (fills, may crop)</option>
+                    <option value="contain">Contain (full, no crop)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Video Position</label>
+                  <input
+                    value={draft.media.heroVideoPosition}
+                    onChange={(e) =>
+                      setDraft((p) => ({
+                        ...p,
+                        media: { ...p.media, heroVideoPosition: e.target.value },
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="50% 15%"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Poster Image URL</label>
+                <input
+                  value={draft.media.heroPosterUrl}
+                  onChange={(e) =>
+                    setDraft((p) => ({
+                      ...p,
+                      media: { ...p.media, heroPosterUrl: e.target.value },
+                    }))
+                  }
+                  className={inputClass}
+                  placeholder="/gallery/1.jpeg"
+                />
+              </div>
+            </div>
+          </div>
+        </section>
+      </div>
+
+      {/* Opening Hours */}
+      <section className={sectionClass}>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h4 className="text-[11px] tracking-[0.3em] uppercase text-stone-400 font-semibold">
+              Opening Hours
+            </h4>
+            <p className="text-stone-500 text-sm mt-2">
+              Used for the hours shown on the website and for the dates and time
+              slots clients can pick when booking.
+            </p>
+          </div>
+          <div className="text-[12px] text-stone-500 md:text-right">
+            {formatWeeklyHours(draft.hours).map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            {WEEK_DISPLAY_ORDER.map((dayIndex) => {
+              const day = draft.hours.weekly[dayIndex];
+              return (
+                <div
+                  key={dayIndex}
+                  className="flex items-center gap-3 px-3 py-2 rounded-xl border border-stone-200 bg-white"
+                >
+                  <label className="inline-flex items-center gap-2 w-32 text-sm text-stone-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={day.open}
+                      onChange={(e) => updateDayHours(dayIndex, { open: e.target.checked })}
+                      className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+                    />
+                    {WEEKDAY_LONG[dayIndex]}
+                  </label>
+                  {day.open ? (
+                    <div className="flex items-center gap-2 flex-1">
+                      <input
+                        type="time"
+                        value={day.start}
+                        onChange={(e) => updateDayHours(dayIndex, { start: e.target.value })}
+                        className="px-3 py-2 border border-stone-200 rounded-lg text-sm outline-none focus:border-amber-600"
+                      />
+                      <span className="text-stone-400 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={day.end}
+                        onChange={(e) => updateDayHours(dayIndex, { end: e.target.value })}
+                        className="px-3 py-2 border border-stone-200 rounded-lg text-sm outline-none focus:border-amber-600"
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-sm text-stone-400">Closed</span>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-2 gap-4 pt-3">
+              <div>
+                <label className={labelClass}>Slot Interval</label>
+                <select
+                  value={draft.hours.slotMinutes}
+                  onChange={(e) =>
+                    setDraft((p) => ({
+                      ...p,
+                      hours: { ...p.hours, slotMinutes: Number(e.target.value) },
+                    }))
+                  }
+                  className={inputClass}
+                >
+                  {[15, 30, 45, 60, 90, 120].map((m) => (
+                    <option key={m} value={m}>
+                      Every {m} min
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Booking Window (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={draft.hours.bookingWindowDays}
+                  onChange={(e) =>
+                    setDraft((p) => ({
+                      ...p,
+                      hours: {
+                        ...p.hours,
+                        bookingWindowDays: clampInt(e.target.value, 1, 365),
+                      },
+                    }))
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-stone-700 font-medium">Closed Dates &amp; Holidays</p>
+              <button
+                type="button"
+                onClick={() => {
+                  const year = new Date().getFullYear();
+                  addClosedDates([
+                    ...southAfricanPublicHolidays(year),
+                    ...southAfricanPublicHolidays(year + 1),
+                  ]);
+                }}
+                className={btnSecondary}
+              >
+                Add SA Public Holidays
+              </button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="date"
+                value={newClosedDate}
+                onChange={(e) => setNewClosedDate(e.target.value)}
+                className={inputClass + " sm:w-44"}
+              />
+              <input
+                value={newClosedLabel}
+                onChange={(e) => setNewClosedLabel(e.target.value)}
+                className={inputClass + " flex-1"}
+                placeholder="Reason (optional), e.g. Staff training"
+              />
+              <button
+                type="button"
+                disabled={!newClosedDate}
+                onClick={() => {
+                  addClosedDates([{ date: newClosedDate, label: newClosedLabel.trim() }]);
+                  setNewClosedDate("");
+                  setNewClosedLabel("");
+                }}
+                className={btnPrimary}
+              >
+                Add
+              </button>
+            </div>
+
+            {draft.hours.closedDates.length === 0 ? (
+              <div className="p-8 border border-dashed border-stone-200 rounded-2xl text-center text-stone-400 text-sm">
+                No closed dates. Bookings follow the weekly schedule.
+              </div>
+            ) : (
+              <div className="max-h-72 overflow-y-auto divide-y divide-stone-100 border border-stone-200 rounded-2xl bg-white">
+                {draft.hours.closedDates.map((c) => (
+                  <div key={c.date} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                    <div className="min-w-0">
+                      <p className="text-sm text-stone-700">
+                        {new Date(`${c.date}T00:00:00`).toLocaleDateString("en-ZA", {
+                          weekday: "short",
+                          day: "2-digit",
+                          month: "short",
+                          year: "numeric",
+                        })}
+                      </p>
+                      {c.label ? <p className="text-[12px] text-stone-400 truncate">{c.label}</p> : null}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeClosedDate(c.date)}
+                      className="px-2.5 py-1 border border-stone-200 text-stone-600 rounded-lg text-[11px] hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Services */}
+      <section className={sectionClass}>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h4 className="text-[11px] tracking-[0.3em] uppercase text-stone-400 font-semibold">
+              Services
+            </h4>
+            <p className="text-stone-500 text-sm mt-2">
+              The services list drives the service cards, the booking form and the
+              review filters. Retire a service to hide it without losing the name on
+              older bookings and reviews.
+            </p>
+          </div>
+          <button type="button" onClick={addService} className={btnPrimary}>
+            Add Service
+          </button>
+        </div>
+
+        {draft.services.items.length === 0 ? (
+          <div className="mt-5 p-10 border border-dashed border-stone-200 rounded-2xl text-center text-stone-400 text-sm">
+            No services yet. Click “Add Service” to create one.
+          </div>
+        ) : (
+          <div className="mt-5 space-y-4">
+            {draft.services.items.map((item, idx) => (
+              <div
+                key={`service_${idx}`}
+                className={
+                  "rounded-2xl border overflow-hidden " +
+                  (item.active ? "border-stone-200 bg-stone-50" : "border-dashed border-stone-300 bg-stone-50/60")
+                }
+              >
+                <div className="p-5 bg-white space-y-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400 font-semibold">
+                      Service {idx + 1}
+                      <code className="ml-2 px-1.5 py-0.5 bg-stone-100 rounded text-[11px] normal-case tracking-normal text-stone-500">
+                        {item.key}
+                      </code>
+                    </p>
+                    {!item.active ? (
+                      <span className="inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium bg-stone-100 text-stone-500 border border-stone-200">
+                        Retired
+                      </span>
+                    ) : item.featured ? (
+                      <span className="inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium bg-amber-50 text-amber-800 border border-amber-100">
+                        Featured
+                      </span>
+                    ) : null}
+                  </div>
+
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className={labelClass}>Title</label>
+                      <input
+                        value={item.title}
+                        onChange={(e) => updateService(idx, { title: e.target.value })}
+                        className={inputClass}
+                        placeholder="e.g. Knotless Braids"
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Category</label>
+                      <input
+                        value={item.category}
+                        onChange={(e) => updateService(idx, { category: e.target.value })}
+                        className={inputClass}
+                        placeholder="Hair"
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Price (optional)</label>
+                      <input
+                        value={item.price}
+                        onChange={(e) => updateService(idx, { price: e.target.value })}
+                        className={inputClass}
+                        placeholder="Starts from R250"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Description</label>
+                    <textarea
+                      rows={2}
+                      value={item.description}
+                      onChange={(e) => updateService(idx, { description: e.target.value })}
+                      className={inputClass + " resize-none"}
+                    />
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>Highlights (one per line)</label>
+                      <textarea
+                        rows={3}
+                        value={item.highlights.join("\n")}
+                        onChange={(e) =>
+                          updateService(idx, { highlights: e.target.value.split("\n") })
+                        }
+                        className={inputClass + " resize-none"}
+                        placeholder={"Knotless\nBox Braids\nCornrows"}
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className={labelClass}>Duration</label>
+                          <select
+                            value={item.durationMinutes}
+                            onChange={(e) =>
+                              updateService(idx, { durationMinutes: Number(e.target.value) })
+                            }
+                            className={inputClass}
+                          >
+                            {SERVICE_DURATION_OPTIONS.includes(item.durationMinutes) ? null : (
+                              <option value={item.durationMinutes}>
+                                {formatDuration(item.durationMinutes)}
+                              </option>
+                            )}
+                            {SERVICE_DURATION_OPTIONS.map((m) => (
+                              <option key={m} value={m}>
+                                {formatDuration(m)}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className={labelClass}>Chairs</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={20}
+                            value={item.capacity}
+                            onChange={(e) =>
+                              updateService(idx, { capacity: clampInt(e.target.value, 1, 20) })
+                            }
+                            className={inputClass}
+                            title="Bookings of this service that can overlap"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className={labelClass}>Icon</label>
+                        <select
+                          value={item.icon}
+                          onChange={(e) =>
+                            updateService(idx, { icon: e.target.value as ServiceIcon })
+                          }
+                          className={inputClass}
+                        >
+                          {SERVICE_ICON_OPTIONS.map((o) => (
+                            <option key={o.value} value={o.value}>
+                              {o.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label className="inline-flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={item.featured}
+                          onChange={(e) => updateService(idx, { featured: e.target.checked })}
+                          className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+                        />
+                        Featured (large card)
+                      </label>
+                    </div>
+                  </div>
+
+                  <details className="rounded-xl border border-stone-200 bg-stone-50/60">
+                    <summary className="px-4 py-3 cursor-pointer text-[11px] tracking-[0.25em] uppercase text-stone-500 font-semibold">
+                      Detail page
+                      <span className="ml-2 normal-case tracking-normal font-normal text-stone-400">
+                        /services/{item.key}
+                      </span>
+                    </summary>
+                    <div className="px-4 pb-4 space-y-4">
+                      <div>
+                        <label className={labelClass}>Long description (optional)</label>
+                        <textarea
+                          rows={4}
+                          value={item.longDescription}
+                          onChange={(e) => updateService(idx, { longDescription: e.target.value })}
+                          className={inputClass + " resize-y"}
+                          placeholder="Shown on the detail page. Leave empty to reuse the short description."
+                        />
+                      </div>
+
+                      <div>
+                        <label className={labelClass}>Price table (by length or variant)</label>
+                        <div className="space-y-2">
+                          {item.priceTable.map((row, rowIdx) => (
+                            <div key={rowIdx} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                              <input
+                                value={row.label}
+                                onChange={(e) => updatePriceRow(idx, rowIdx, { label: e.target.value })}
+                                className={inputClass}
+                                placeholder="Mid-back"
+                              />
+                              <input
+                                value={row.price}
+                                onChange={(e) => updatePriceRow(idx, rowIdx, { price: e.target.value })}
+                                className={inputClass}
+                                placeholder="R350"
+                              />
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateService(idx, {
+                                    priceTable: item.priceTable.filter((_, i) => i !== rowIdx),
+                                  })
+                                }
+                                className={btnSecondary + " hover:text-red-600 hover:border-red-200"}
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateService(idx, {
+                                priceTable: [...item.priceTable, { label: "", price: "" }],
+                              })
+                            }
+                            className={btnSecondary}
+                          >
+                            Add Price Row
+                          </button>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className={labelClass}>Aftercare (one tip per line)</label>
+                        <textarea
+                          rows={3}
+                          value={item.aftercare.join("\n")}
+                          onChange={(e) => updateService(idx, { aftercare: e.target.value.split("\n") })}
+                          className={inputClass + " resize-y"}
+                          placeholder={"Wrap your hair at night.\nAvoid heavy oils on the scalp."}
+                        />
+                      </div>
+
+                      <div>
+                        <label className={labelClass}>Gallery photos</label>
+                        {serviceGalleryImages.length === 0 ? (
+                          <p className="text-sm text-stone-400">No gallery images configured yet.</p>
+                        ) : (
+                          <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-2 max-h-72 overflow-y-auto pr-1">
+                            {serviceGalleryImages.map((src) => {
+                              const tagged = getGalleryImageMeta(draft, src).services.includes(item.key);
+                              return (
+                                <button
+                                  key={src}
+                                  type="button"
+                                  onClick={() => toggleServiceImage(src, item.key)}
+                                  className={
+                                    "relative aspect-square rounded-lg overflow-hidden border-2 transition-colors " +
+                                    (tagged ? "border-amber-600" : "border-transparent opacity-70 hover:opacity-100")
+                                  }
+                                  title={tagged ? "Shown on this service's page" : "Click to show on this service's page"}
+                                >
+                                  <img
+                                    src={src}
+                                    alt=""
+                                    loading="lazy"
+                                    className="w-full h-full object-cover"
+                                    onError={(e) => {
+                                      (e.currentTarget.parentElement as HTMLElement).style.display = "none";
+                                    }}
+                                  />
+                                  {tagged ? (
+                                    <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-amber-600 text-white text-[10px] leading-4 text-center">
+                                      ✓
+                                    </span>
+                                  ) : null}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </details>
+                </div>
+
+                <div className="px-5 py-3 bg-stone-50 border-t border-stone-200 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => moveService(idx, -1)}
+                      disabled={idx === 0}
+                      className={btnSecondary}
+                    >
+                      Move Up
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveService(idx, 1)}
+                      disabled={idx === draft.services.items.length - 1}
+                      className={btnSecondary}
+                    >
+                      Move Down
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => updateService(idx, { active: !item.active })}
+                      className={btnSecondary}
+                    >
+                      {item.active ? "Retire" : "Restore"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeService(idx)}
+                      className={btnSecondary + " hover:text-red-600 hover:border-red-200"}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Team */}
+      <section className={sectionClass}>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h4 className="text-[11px] tracking-[0.3em] uppercase text-stone-400 font-semibold">
+              Team
+            </h4>
+            <p className="text-stone-500 text-sm mt-2">
+              Stylist profiles for the “Meet the team” section. Clients can pick a
+              preferred stylist when booking; only people who do the service and work
+              that day are offered.
+            </p>
+          </div>
+          <button type="button" onClick={addTeamMember} className={btnPrimary}>
+            Add Stylist
+          </button>
+        </div>
+
+        <label className="inline-flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.team.enabled}
+            onChange={(e) =>
+              setDraft((p) => ({ ...p, team: { ...p.team, enabled: e.target.checked } }))
+            }
+            className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+          />
+          Show “Meet the team” on the website
+        </label>
+
+        {draft.team.members.length === 0 ? (
+          <div className="p-10 border border-dashed border-stone-200 rounded-2xl text-center text-stone-400 text-sm">
+            No team members yet. Click “Add Stylist” to create one.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {draft.team.members.map((member, idx) => (
+              <div
+                key={member.id}
+                className={
+                  "rounded-2xl border overflow-hidden " +
+                  (member.active ? "border-stone-200 bg-stone-50" : "border-dashed border-stone-300 bg-stone-50/60")
+                }
+              >
+                <div className="p-5 bg-white space-y-4">
+                  <div className="flex items-start gap-4">
+                    <div className="w-16 h-16 rounded-2xl bg-stone-100 border border-stone-200 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                      {member.photoUrl ? (
+                        <img src={member.photoUrl} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <span className="font-serif text-2xl text-stone-300">
+                          {member.name.trim().charAt(0)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex-1 grid sm:grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>Name</label>
+                        <input
+                          value={member.name}
+                          onChange={(e) => updateTeamMember(member.id, { name: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Title</label>
+                        <input
+                          value={member.title}
+                          onChange={(e) => updateTeamMember(member.id, { title: e.target.value })}
+                          className={inputClass}
+                          placeholder="e.g. Senior Braider"
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Photo URL</label>
+                    <input
+                      value={member.photoUrl}
+                      onChange={(e) => updateTeamMember(member.id, { photoUrl: e.target.value })}
+                      onBlur={(e) =>
+                        updateTeamMember(member.id, { photoUrl: normalizeUrlInput(e.target.value) })
+                      }
+                      className={inputClass}
+                      placeholder="/gallery/team-thandi.jpeg"
+                    />
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Bio</label>
+                    <textarea
+                      rows={3}
+                      value={member.bio}
+                      onChange={(e) => updateTeamMember(member.id, { bio: e.target.value })}
+                      className={inputClass + " resize-none"}
+                    />
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Services (none ticked = all)</label>
+                    <div className="flex flex-wrap gap-2">
+                      {draft.services.items
+                        .filter((svc) => svc.active || member.services.includes(svc.key))
+                        .map((svc) => (
+                          <label
+                            key={svc.key}
+                            className={
+                              "inline-flex items-center gap-2 px-3 py-1.5 rounded-full border text-[12px] cursor-pointer transition-colors " +
+                              (member.services.includes(svc.key)
+                                ? "bg-amber-50 border-amber-200 text-amber-800"
+                                : "bg-white border-stone-200 text-stone-600")
+                            }
+                          >
+                            <input
+                              type="checkbox"
+                              checked={member.services.includes(svc.key)}
+                              onChange={() =>
+                                updateTeamMember(member.id, {
+                                  services: toggleInList(member.services, svc.key),
+                                })
+                              }
+                              className="sr-only"
+                            />
+                            {svc.title || svc.key}
+                          </label>
+                        ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Working days</label>
+                    <div className="flex flex-wrap gap-1.5">
+                      {WEEK_DISPLAY_ORDER.map((day) => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() =>
+                            updateTeamMember(member.id, {
+                              workingDays: toggleInList(member.workingDays, day).sort((a, b) => a - b),
+                            })
+                          }
+                          className={
+                            "w-11 py-1.5 rounded-lg border text-[12px] transition-colors " +
+                            (member.workingDays.includes(day)
+                              ? "bg-stone-900 border-stone-900 text-white"
+                              : "bg-white border-stone-200 text-stone-500 hover:text-stone-800")
+                          }
+                        >
+                          {WEEKDAY_SHORT[day]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                 </div>
-              </div>
 
-              <div>
-                <label className={labelClass}>Poster Image URL</label>
-                <input
-                  value={draft.media.heroPosterUrl}
-                  onChange={(e) =>
-                    setDraft((p) => ({
-                      ...p,
-                      media: { ...p.media, heroPosterUrl: e.target.value },
-                    }))
-                  }
-                  className={inputClass}
-                  placeholder="/gallery/1.jpeg"
-                />
+                <div className="px-5 py-3 bg-stone-50 border-t border-stone-200 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => moveTeamMember(idx, -1)}
+                      disabled={idx === 0}
+                      className={btnSecondary}
+                    >
+                      Move Up
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveTeamMember(idx, 1)}
+                      disabled={idx === draft.team.members.length - 1}
+                      className={btnSecondary}
+                    >
+                      Move Down
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => updateTeamMember(member.id, { active: !member.active })}
+                      className={btnSecondary}
+                    >
+                      {member.active ? "Hide" : "Show"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeTeamMember(member)}
+                      className={btnSecondary + " hover:text-red-600 hover:border-red-200"}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
               </div>
-            </div>
+            ))}
           </div>
-        </section>
-      </div>
+        )}
+      </section>
 
       {/* Appointments */}
       <section className={sectionClass}>
@@ -666,7 +1711,8 @@ export function AdminSettingsPanel() {
           Appointments
         </h4>
         <p className="text-stone-500 text-sm mt-2">
-          Bookings are handled via WhatsApp only.
+          Booking requests are listed in the Appointments tab. Clients confirm
+          details with the salon on WhatsApp.
         </p>
       </section>
 
@@ -678,8 +1724,8 @@ export function AdminSettingsPanel() {
               Promotions / Specials
             </h4>
             <p className="text-stone-500 text-sm mt-2">
-              Add specials that show on the public website (use an expiry date if
-              needed). Add images by using a URL or by placing an image inside
+              Add specials that show on the public website. Each can start and end on
+              set dates, run on chosen weekdays only and within set hours. Add images by using a URL or by placing an image inside
               <code className="mx-1 px-1 py-0.5 bg-stone-100 rounded text-[12px]">
                 public/gallery/
               </code>
@@ -724,9 +1770,12 @@ export function AdminSettingsPanel() {
               >
                 <div className="p-5 bg-white flex flex-col md:flex-row md:items-start md:justify-between gap-4">
                   <div className="min-w-0">
-                    <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400 font-semibold">
-                      Special {idx + 1}
-                    </p>
+                    <div className="flex items-center gap-2">
+                      <p className="text-[11px] tracking-[0.25em] uppercase text-stone-400 font-semibold">
+                        Special {idx + 1}
+                      </p>
+                      <PromotionStatusBadge status={getPromotionStatus(item)} />
+                    </div>
                     <div className="mt-3 grid sm:grid-cols-2 gap-4">
                       <div>
                         <label className={labelClass}>Title</label>
@@ -777,21 +1826,203 @@ export function AdminSettingsPanel() {
                           placeholder="Book on WhatsApp"
                         />
                       </div>
+                    </div>
+
+                    {/* Schedule */}
+                    <div className="mt-4 p-4 rounded-xl border border-stone-200 bg-stone-50/60 space-y-4">
+                      <div className="grid sm:grid-cols-2 gap-4">
+                        <div>
+                          <label className={labelClass}>Starts (optional)</label>
+                          <input
+                            type="date"
+                            value={item.validFrom}
+                            max={item.validUntil || undefined}
+                            onChange={(e) => updatePromotion(item.id, { validFrom: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Ends (optional, last day)</label>
+                          <input
+                            type="date"
+                            value={item.validUntil}
+                            min={item.validFrom || undefined}
+                            onChange={(e) => updatePromotion(item.id, { validUntil: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
                       <div>
-                        <label className={labelClass}>Valid Until (optional)</label>
-                        <input
-                          type="date"
-                          value={item.validUntil ? item.validUntil.slice(0, 10) : ""}
-                          onChange={(e) =>
-                            updatePromotion(item.id, {
-                              validUntil: e.target.value
-                                ? new Date(e.target.value + "T00:00:00").toISOString()
-                                : "",
-                            })
-                          }
-                          className={inputClass}
-                        />
+                        <label className={labelClass}>Runs on (none selected = every day)</label>
+                        <div className="flex flex-wrap gap-2">
+                          {WEEK_DISPLAY_ORDER.map((day) => (
+                            <label
+                              key={day}
+                              className={
+                                "inline-flex items-center px-3 py-1.5 rounded-full border text-[12px] cursor-pointer transition-colors " +
+                                (item.days.includes(day)
+                                  ? "bg-amber-50 border-amber-200 text-amber-800"
+                                  : "bg-white border-stone-200 text-stone-600")
+                              }
+                            >
+                              <input
+                                type="checkbox"
+                                checked={item.days.includes(day)}
+                                onChange={() =>
+                                  updatePromotion(item.id, {
+                                    days: toggleInList(item.days, day).sort((a, b) => a - b),
+                                  })
+                                }
+                                className="sr-only"
+                              />
+                              {WEEKDAY_SHORT[day]}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid sm:grid-cols-2 gap-4">
+                        <div>
+                          <label className={labelClass}>From (optional)</label>
+                          <input
+                            type="time"
+                            value={item.startTime}
+                            onChange={(e) => updatePromotion(item.id, { startTime: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Until (optional)</label>
+                          <input
+                            type="time"
+                            value={item.endTime}
+                            onChange={(e) => updatePromotion(item.id, { endTime: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-stone-400">
+                        Dates and times are South African time, whatever time zone visitors are in.
+                        {describePromotionSchedule(item) ? ` Shown as “${describePromotionSchedule(item)}”.` : ""}
+                      </p>
+                    </div>
+
+                    <div className="mt-4">
+                      <label className={labelClass}>Services (none selected = all services)</label>
+                      <div className="flex flex-wrap gap-2">
+                        {draft.services.items
+                          .filter((svc) => svc.active || item.services.includes(svc.key))
+                          .map((svc) => (
+                            <label
+                              key={svc.key}
+                              className={
+                                "inline-flex items-center px-3 py-1.5 rounded-full border text-[12px] cursor-pointer transition-colors " +
+                                (item.services.includes(svc.key)
+                                  ? "bg-amber-50 border-amber-200 text-amber-800"
+                                  : "bg-white border-stone-200 text-stone-600")
+                              }
+                            >
+                              <input
+                                type="checkbox"
+                                checked={item.services.includes(svc.key)}
+                                onChange={() =>
+                                  updatePromotion(item.id, { services: toggleInList(item.services, svc.key) })
+                                }
+                                className="sr-only"
+                              />
+                              {svc.title || svc.key}
+                            </label>
+                          ))}
+                      </div>
+                      <p className="text-[11px] text-stone-400 mt-2">
+                        The special's button opens the booking form on the first of these, with the special (and its code) filled in.
+                      </p>
+                    </div>
+
+                    {/* Promo code */}
+                    <div className="mt-4 p-4 rounded-xl border border-stone-200 bg-stone-50/60 space-y-4">
+                      <div className="grid sm:grid-cols-3 gap-4">
+                        <div>
+                          <label className={labelClass}>Promo Code (optional)</label>
+                          <input
+                            value={item.code}
+                            onChange={(e) =>
+                              updatePromotion(item.id, { code: normalizePromoCode(e.target.value) })
+                            }
+                            className={inputClass + " font-mono tracking-widest"}
+                            placeholder="BRAIDS20"
+                          />
+                          {item.code &&
+                          draft.promotions.items.some((x) => x.id !== item.id && x.code === item.code) ? (
+                            <p className="text-[11px] text-red-600 mt-1">Another special uses this code.</p>
+                          ) : null}
+                        </div>
+                        <div>
+                          <label className={labelClass}>Discount</label>
+                          <select
+                            value={item.discount.type}
+                            onChange={(e) =>
+                              updatePromotion(item.id, {
+                                discount: {
+                                  ...item.discount,
+                                  type: e.target.value as Promotion["discount"]["type"],
+                                },
+                              })
+                            }
+                            className={inputClass}
+                          >
+                            <option value="percent">Percent off</option>
+                            <option value="fixed">Rand amount off</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className={labelClass}>
+                            {item.discount.type === "fixed" ? "Amount (R)" : "Amount (%)"}
+                          </label>
+                          <input
+                            type="number"
+                            min={0}
+                            max={item.discount.type === "percent" ? 100 : undefined}
+                            value={item.discount.amount}
+                            onChange={(e) =>
+                              updatePromotion(item.id, {
+                                discount: {
+                                  ...item.discount,
+                                  amount: clampInt(e.target.value, 0, item.discount.type === "percent" ? 100 : 100000),
+                                },
+                              })
+                            }
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid sm:grid-cols-2 gap-4">
+                        <div>
+                          <label className={labelClass}>Usage Limit (0 = unlimited)</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={item.usageLimit}
+                            onChange={(e) =>
+                              updatePromotion(item.id, { usageLimit: clampInt(e.target.value, 0, 100000) })
+                            }
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Code Expires (optional, last day)</label>
+                          <input
+                            type="date"
+                            value={item.codeExpires}
+                            onChange={(e) => updatePromotion(item.id, { codeExpires: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
                       </div>
+                      <p className="text-[11px] text-stone-400">
+                        Clients can enter the code in the booking form while this special is live.
+                        The code is saved on the appointment and in their WhatsApp message; cancelled
+                        bookings don't count towards the limit.
+                      </p>
                     </div>
                   </div>
 
@@ -805,6 +2036,17 @@ export function AdminSettingsPanel() {
                       className={inputClass}
                       placeholder="/gallery/promo1.jpeg or https://..."
                     />
+                    <div className="mt-2">
+                      <UploadButton
+                        folder="promotions"
+                        label={item.imageUrl ? "Upload Replacement" : "Upload Image"}
+                        onUploaded={(url, responsive) => {
+                          updatePromotion(item.id, { imageUrl: url });
+                          if (responsive) setImageVariants(url, responsive);
+                        }}
+                        className={btnSecondary + " w-full"}
+                      />
+                    </div>
 
                     <div className="mt-3 rounded-2xl border border-stone-200 bg-stone-100 overflow-hidden">
                       <div className="aspect-[4/3] relative">
@@ -984,6 +2226,21 @@ export function AdminSettingsPanel() {
               </select>
             </div>
 
+            <label className="inline-flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.gallery.videoAutoplay}
+                onChange={(e) =>
+                  setDraft((p) => ({
+                    ...p,
+                    gallery: { ...p.gallery, videoAutoplay: e.target.checked },
+                  }))
+                }
+                className="w-4 h-4 rounded border-stone-300 text-amber-600 focus:ring-amber-500"
+              />
+              Play gallery videos silently while they're on screen
+            </label>
+
             {/* Cache buster */}
             <div className="p-5 border border-stone-200 bg-stone-50 rounded-2xl">
               <div className="flex items-start justify-between gap-4">
@@ -992,8 +2249,9 @@ export function AdminSettingsPanel() {
                     Refresh Gallery Images
                   </p>
                   <p className="text-[12px] text-stone-500 mt-1">
-                    If you replaced internal files and redeployed, click refresh so
-                    visitors load the latest versions.
+                    Files in <code className="px-1 py-0.5 bg-stone-100 rounded">public{GALLERY_MANIFEST_FOLDER}/</code>{" "}
+                    refresh automatically after a redeploy (they're versioned by content).
+                    Click refresh if you replaced images in another folder.
                   </p>
                   <p className="text-[11px] text-stone-400 mt-2">
                     Current version:{" "}
@@ -1129,8 +2387,30 @@ export function AdminSettingsPanel() {
                   placeholder="/gallery/nails1.jpeg\n/gallery/nails2.jpeg\nhttps://..."
                 />
                 <p className="text-[11px] text-stone-400 mt-2">
-                  Tip: add internal files to <code className="px-1 py-0.5 bg-stone-100 rounded">public/gallery/</code> and reference them like <code className="px-1 py-0.5 bg-stone-100 rounded">/gallery/nails1.jpeg</code>.
+                  Tip: add internal files to <code className="px-1 py-0.5 bg-stone-100 rounded">public/gallery/</code> and reference them like <code className="px-1 py-0.5 bg-stone-100 rounded">/gallery/nails1.jpeg</code>, or upload them here.
                 </p>
+                <div className="mt-3">
+                  <UploadButton
+                    folder="gallery"
+                    multiple
+                    label="Upload Nail Images"
+                    onUploaded={(url, responsive) => {
+                      setDraft((p) => ({
+                        ...p,
+                        gallery: {
+                          ...p.gallery,
+                          featuredNails: {
+                            ...p.gallery.featuredNails,
+                            imageUrls: [...(p.gallery.featuredNails.imageUrls || []), url],
+                          },
+                          featuredVideo: { ...p.gallery.featuredVideo, enabled: false },
+                        },
+                      }));
+                      if (responsive) setImageVariants(url, responsive);
+                    }}
+                    className={btnSecondary}
+                  />
+                </div>
               </div>
 
               {/* Preview */}
@@ -1181,9 +2461,15 @@ export function AdminSettingsPanel() {
             {draft.gallery.mode === "numbered" ? (
               <div className="space-y-4">
                 <div className="flex items-center justify-between gap-3">
-                  <p className="text-sm text-stone-600 font-medium">
-                    Internal (public/gallery)
-                  </p>
+                  <div>
+                    <p className="text-sm text-stone-600 font-medium">
+                      Internal (public/gallery)
+                    </p>
+                    <p className="text-[11px] text-stone-400 mt-1">
+                      {GALLERY_MANIFEST_COUNT} file{GALLERY_MANIFEST_COUNT === 1 ? "" : "s"} found at
+                      build time; only numbers that exist are shown.
+                    </p>
+                  </div>
                   <button
                     type="button"
                     onClick={() =>
@@ -1427,7 +2713,7 @@ export function AdminSettingsPanel() {
                       value={newImageUrl}
                       onChange={(e) => setNewImageUrl(e.target.value)}
                       className={inputClass + " flex-1"}
-                      placeholder="https://.../image.jpg or /gallery/12.jpeg"
+                      placeholder="https://.../image.jpg, /gallery/12.jpeg or /gallery/clip.mp4"
                     />
                     <button
                       type="button"
@@ -1445,6 +2731,23 @@ export function AdminSettingsPanel() {
                     after you add them to the project and redeploy.
                   </p>
                 </div>
+
+                <div>
+                  <label className={labelClass}>Or Upload Photos &amp; Videos</label>
+                  <UploadButton
+                    folder="gallery"
+                    multiple
+                    allowVideo
+                    label="Choose Files"
+                    onUploaded={addCustomImage}
+                    className={btnSecondary}
+                  />
+                  <p className="text-[11px] text-stone-400 mt-2">
+                    Photos are resized, converted to WebP/AVIF and stripped of location data
+                    before upload. Videos (MP4/WebM, up to 100 MB) keep their sound for the
+                    lightbox and get a poster frame. They go live once you save.
+                  </p>
+                </div>
               </div>
             )}
           </div>
@@ -1488,7 +2791,19 @@ export function AdminSettingsPanel() {
                       }
                       title="Drag to reorder"
                     >
-                      {draft.gallery.tileFit === "contain" ? (
+                      {isVideoUrl(src) ? (
+                        <video
+                          src={src}
+                          poster={getGalleryImageMeta(draft, src).poster}
+                          muted
+                          playsInline
+                          preload="metadata"
+                          className={
+                            "absolute inset-0 w-full h-full " +
+                            (draft.gallery.tileFit === "contain" ? "object-contain bg-stone-100" : "object-cover")
+                          }
+                        />
+                      ) : draft.gallery.tileFit === "contain" ? (
                         <div className="absolute inset-0 flex items-center justify-center bg-stone-100">
                           <img
                             src={src}
@@ -1510,8 +2825,9 @@ export function AdminSettingsPanel() {
 
                       <div className="absolute inset-x-2 top-2 flex justify-between pointer-events-none">
                         <span className="pointer-events-none inline-flex items-center px-2 py-1 rounded-full bg-white/80 border border-stone-200 text-[10px] tracking-widest uppercase text-stone-600">
-                          Drag
+                          {isVideoUrl(src) ? "Video · Drag" : "Drag"}
                         </span>
+                        <ImageMetaBadge meta={getGalleryImageMeta(draft, src)} />
                       </div>
 
                       <div className="absolute inset-x-2 bottom-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -1524,6 +2840,13 @@ export function AdminSettingsPanel() {
                             >
                               Replace URL
                             </button>
+                            <button
+                              type="button"
+                              onClick={() => setDetailsImage(src)}
+                              className="px-2.5 py-1 bg-white/90 border border-stone-200 text-stone-600 rounded-lg text-[11px]"
+                            >
+                              Details
+                            </button>
                           </div>
                           <button
                             type="button"
@@ -1550,10 +2873,16 @@ export function AdminSettingsPanel() {
                 </div>
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
                   {internalPreview.map((src, idx) => (
-                    <div
+                    <button
                       key={`${src}_${idx}`}
+                      type="button"
                       data-internal-preview-tile
-                      className="relative aspect-square border border-stone-200 bg-stone-50 overflow-hidden rounded-xl"
+                      onClick={() => setDetailsImage(src)}
+                      className={
+                        "relative aspect-square border bg-stone-50 overflow-hidden rounded-xl " +
+                        (detailsImage === src ? "border-amber-400 ring-2 ring-amber-200" : "border-stone-200")
+                      }
+                      title="Edit tags, caption and alt text"
                     >
                       <img
                         src={src}
@@ -1573,14 +2902,162 @@ export function AdminSettingsPanel() {
                           if (tile) tile.style.display = "none";
                         }}
                       />
-                    </div>
+                      <span className="absolute top-2 right-2">
+                        <ImageMetaBadge meta={getGalleryImageMeta(draft, src)} />
+                      </span>
+                    </button>
                   ))}
                 </div>
               </div>
             )}
+
+            {/* Per-image details */}
+            {detailsImage && detailsMeta ? (
+              <div className="mt-4 p-5 border border-stone-200 bg-stone-50 rounded-2xl space-y-4">
+                <div className="flex items-start gap-4">
+                  {detailsVideo ? (
+                    <video
+                      src={detailsImage}
+                      poster={detailsMeta.poster}
+                      muted
+                      playsInline
+                      preload="metadata"
+                      className="w-20 h-20 rounded-xl object-cover border border-stone-200 bg-white flex-shrink-0"
+                    />
+                  ) : (
+                    <img
+                      src={detailsImage}
+                      alt=""
+                      className="w-20 h-20 rounded-xl object-cover border border-stone-200 bg-white flex-shrink-0"
+                    />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-stone-700 font-medium">{detailsVideo ? "Video Details" : "Image Details"}</p>
+                    <p className="text-[12px] text-stone-400 truncate" title={detailsImage}>
+                      {galleryImageKey(detailsImage)}
+                    </p>
+                  </div>
+                  <button type="button" onClick={() => setDetailsImage(null)} className={btnSecondary}>
+                    Done
+                  </button>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Services (filter chips + service pages)</label>
+                  <div className="flex flex-wrap gap-2">
+                    {draft.services.items
+                      .filter((svc) => svc.active || detailsMeta.services.includes(svc.key))
+                      .map((svc) => (
+                        <label
+                          key={svc.key}
+                          className={
+                            "inline-flex items-center gap-2 px-3 py-1.5 rounded-full border text-[12px] cursor-pointer transition-colors " +
+                            (detailsMeta.services.includes(svc.key)
+                              ? "bg-amber-50 border-amber-200 text-amber-800"
+                              : "bg-white border-stone-200 text-stone-600")
+                          }
+                        >
+                          <input
+                            type="checkbox"
+                            checked={detailsMeta.services.includes(svc.key)}
+                            onChange={() => toggleServiceImage(detailsImage, svc.key)}
+                            className="sr-only"
+                          />
+                          {svc.title || svc.key}
+                        </label>
+                      ))}
+                  </div>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Caption</label>
+                    <input
+                      value={detailsMeta.caption}
+                      maxLength={140}
+                      onChange={(e) => updateImageMeta(detailsImage, () => ({ caption: e.target.value }))}
+                      className={inputClass}
+                      placeholder="Waist-length knotless braids"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Alt text</label>
+                    <input
+                      value={detailsMeta.alt}
+                      maxLength={160}
+                      onChange={(e) => updateImageMeta(detailsImage, () => ({ alt: e.target.value }))}
+                      className={inputClass}
+                      placeholder={detailsVideo ? "Describe the clip for screen readers" : "Describe the photo for screen readers"}
+                    />
+                  </div>
+                </div>
+
+                {detailsVideo ? (
+                  <div>
+                    <label className={labelClass}>Poster frame</label>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        value={detailsMeta.poster ?? ""}
+                        onChange={(e) => updateImageMeta(detailsImage, () => ({ poster: e.target.value.trim() }))}
+                        className={inputClass + " flex-1"}
+                        placeholder="https://.../still.jpg or /gallery/12.jpeg"
+                      />
+                      <UploadButton
+                        folder="gallery"
+                        label="Upload Still"
+                        onUploaded={(url) => updateImageMeta(detailsImage, () => ({ poster: url }))}
+                        className={btnSecondary}
+                      />
+                    </div>
+                    <p className="text-[11px] text-stone-400 mt-2">
+                      Shown on the gallery tile and before the clip plays. Uploaded videos get one
+                      automatically; replace it if the captured frame isn't flattering.
+                    </p>
+                  </div>
+                ) : null}
+              </div>
+            ) : (
+              <p className="mt-4 text-[11px] text-stone-400">
+                {draft.gallery.mode === "custom"
+                  ? "Hover an image and choose Details to tag it with services and add a caption and alt text."
+                  : "Click an image to tag it with services and add a caption and alt text."}
+              </p>
+            )}
           </div>
         </div>
       </section>
+
+      <SettingsHistory onRestore={onRestore} disabled={busy} />
     </div>
   );
 }
+
+const PROMOTION_STATUS_STYLES: Record<PromotionStatus, { label: string; className: string }> = {
+  live: { label: "Live", className: "bg-emerald-50 border-emerald-200 text-emerald-700" },
+  scheduled: { label: "Scheduled", className: "bg-amber-50 border-amber-200 text-amber-800" },
+  expired: { label: "Expired", className: "bg-stone-100 border-stone-200 text-stone-500" },
+};
+
+/** Whether a promotion is showing on the site right now (salon time). */
+function PromotionStatusBadge({ status }: { status: PromotionStatus }) {
+  const style = PROMOTION_STATUS_STYLES[status];
+  return (
+    <span className={"inline-flex items-center px-2 py-0.5 rounded-full border text-[10px] tracking-widest uppercase " + style.className}>
+      {style.label}
+    </span>
+  );
+}
+
+/** Small "tagged" marker on admin gallery tiles. */
+function ImageMetaBadge({ meta }: { meta: GalleryImageMeta }) {
+  const count = meta.services.length;
+  if (count === 0 && !meta.caption.trim()) return null;
+  return (
+    <span
+      className="inline-flex items-center px-2 py-1 rounded-full bg-amber-50/90 border border-amber-200 text-[10px] text-amber-800"
+      title={meta.caption || undefined}
+    >
+      {count > 0 ? `${count} tag${count === 1 ? "" : "s"}` : "Caption"}
+    </span>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import {
+  deleteStaffMember,
+  saveStaffMember,
+  subscribeStaff,
+  type StaffMember,
+} from "../api/firestoreService";
+import { ADMIN_ROLE_LABELS, ADMIN_ROLES, type AdminRole } from "../api/adminAuth";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: "Everything, including staff logins.",
+  manager: "Appointments, reviews and website settings.",
+  stylist: "Views appointments and updates their status.",
+  "read-only": "Views appointments and reviews.",
+};
+
+const EMPTY_DRAFT = { email: "", name: "", role: "stylist" as AdminRole };
+
+/** Owner-only allowlist editor; sign-in accounts are created in Firebase Authentication. */
+export function AdminStaffPanel({ currentEmail }: { currentEmail: string }) {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const unsub = subscribeStaff((list) => {
+      setStaff(list);
+      setLoaded(true);
+    });
+    return () => unsub();
+  }, []);
+
+  const me = currentEmail.toLowerCase();
+  const owners = staff.filter((m) => m.role === "owner" && m.active !== false).length;
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = draft.email.trim().toLowerCase();
+    if (!EMAIL_RE.test(email)) {
+      setError("Please enter a valid email address.");
+      return;
+    }
+    if (staff.some((m) => m.email === email)) {
+      setError("That email already has access. Change its role in the list below.");
+      return;
+    }
+    setError("");
+    setBusy(true);
+    const ok = await saveStaffMember({
+      email,
+      role: draft.role,
+      name: draft.name.trim() || undefined,
+      active: true,
+      createdAt: new Date().toISOString(),
+      createdBy: me,
+    });
+    setBusy(false);
+    if (!ok) setError("Could not add the staff member. Please try again.");
+    else setDraft(EMPTY_DRAFT);
+  };
+
+  const update = async (member: StaffMember, patch: Partial<StaffMember>) => {
+    const next = { ...member, ...patch };
+    // Keep at least one active owner so the staff list can still be managed.
+    const losesOwner =
+      member.role === "owner" &&
+      member.active !== false &&
+      (next.role !== "owner" || next.active === false);
+    if (losesOwner && owners <= 1) {
+      window.alert("There must be at least one active owner.");
+      return;
+    }
+    setBusy(true);
+    const ok = await saveStaffMember({ email: member.email, ...patch });
+    setBusy(false);
+    if (!ok) window.alert("Could not update the staff member. Please try again.");
+  };
+
+  const remove = async (member: StaffMember) => {
+    if (member.email === me) {
+      window.alert("You can't remove your own access.");
+      return;
+    }
+    if (!window.confirm(`Remove admin access for ${member.email}?`)) return;
+    setBusy(true);
+    const ok = await deleteStaffMember(member.email);
+    setBusy(false);
+    if (!ok) window.alert("Could not remove the staff member. Please try again.");
+  };
+
+  const selectClass =
+    "px-3 py-2 border border-stone-200 bg-white text-sm rounded-xl outline-none focus:border-amber-600";
+  const actionBtn =
+    "px-3 py-1.5 text-[12px] border border-stone-200 text-stone-600 hover:text-stone-900 rounded-lg transition-colors disabled:opacity-40";
+  const inputClass =
+    "w-full px-4 py-2.5 border border-stone-200 rounded-xl text-sm outline-none focus:border-amber-600 transition-colors";
+
+  return (
+    <>
+      {/* Staff header */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-serif text-stone-900">Staff</h2>
+        <p className="text-stone-500 text-sm mt-1">
+          Who can sign in to the admin panel and what they can change. Create each person's
+          password login in Firebase Authentication, then add their email here.
+        </p>
+      </div>
+
+      {/* Add staff */}
+      <form
+        onSubmit={add}
+        className="mb-6 p-5 bg-white border border-stone-200 shadow-sm rounded-2xl grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1fr_auto] gap-3 items-end"
+      >
+        <div>
+          <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-1.5">Email</label>
+          <input
+            type="email"
+            required
+            value={draft.email}
+            onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+            className={inputClass}
+            placeholder="stylist@berlybeauty.co.za"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-1.5">Name</label>
+          <input
+            type="text"
+            maxLength={60}
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-1.5">Role</label>
+          <select
+            value={draft.role}
+            onChange={(e) => setDraft({ ...draft, role: e.target.value as AdminRole })}
+            className={selectClass + " w-full"}
+          >
+            {ADMIN_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ADMIN_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={busy}
+          className="px-5 py-2.5 bg-stone-900 text-white hover:bg-stone-800 rounded-xl transition-colors text-sm disabled:opacity-40"
+        >
+          Add
+        </button>
+        {error ? <p className="md:col-span-4 text-sm text-red-600">{error}</p> : null}
+        <p className="md:col-span-4 text-[12px] text-stone-400">{ROLE_DESCRIPTIONS[draft.role]}</p>
+      </form>
+
+      <div className="bg-white border border-stone-200 shadow-sm overflow-hidden rounded-2xl">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[720px]">
+            <thead className="bg-stone-50">
+              <tr>
+                {["Staff", "Role", "Access", "Actions"].map((h) => (
+                  <th
+                    key={h}
+                    className={`px-5 py-3.5 text-[11px] font-semibold text-stone-400 uppercase tracking-[0.25em] ${
+                      h === "Actions" ? "text-right" : "text-left"
+                    }`}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100">
+              {staff.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-16 text-center">
+                    <p className="text-stone-600 font-medium">
+                      {loaded ? "No staff yet" : "Loading staff…"}
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                staff.map((m) => {
+                  const isMe = m.email === me;
+                  return (
+                    <tr key={m.email} className="hover:bg-stone-50/60 transition-colors">
+                      <td className="px-5 py-4">
+                        <p className="font-medium text-stone-900 text-sm">
+                          {m.name || m.email}
+                          {isMe ? <span className="text-stone-400 font-normal"> (you)</span> : null}
+                        </p>
+                        {m.name ? <p className="text-[12px] text-stone-400">{m.email}</p> : null}
+                      </td>
+                      <td className="px-5 py-4">
+                        <select
+                          value={m.role}
+                          disabled={busy || isMe}
+                          onChange={(e) => update(m, { role: e.target.value as AdminRole })}
+                          className={selectClass}
+                          title={ROLE_DESCRIPTIONS[m.role]}
+                        >
+                          {ADMIN_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ADMIN_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-5 py-4">
+                        <span
+                          className={
+                            "inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium border " +
+                            (m.active === false
+                              ? "bg-stone-100 text-stone-500 border-stone-200"
+                              : "bg-emerald-50 text-emerald-700 border-emerald-200")
+                          }
+                        >
+                          {m.active === false ? "Suspended" : "Active"}
+                        </span>
+                      </td>
+                      <td className="px-5 py-4">
+                        <div className="flex items-center justify-end gap-2">
+                          {!isMe ? (
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => update(m, { active: m.active === false })}
+                              className={actionBtn}
+                            >
+                              {m.active === false ? "Restore" : "Suspend"}
+                            </button>
+                          ) : null}
+                          {!isMe ? (
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => remove(m)}
+                              className="px-3 py-1.5 text-[12px] border border-stone-200 text-stone-500 hover:text-red-600 hover:border-red-200 rounded-lg transition-colors disabled:opacity-40"
+                            >
+                              Remove
+                            </button>
+                          ) : null}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSettingsHistory, type PublishedRevision } from "../siteSettings";
+import { diffSettings, formatDiffValue } from "../settingsDiff";
+
+function revisionLabel(r: PublishedRevision) {
+  return `${r.publishedAt ? new Date(r.publishedAt).toLocaleString() : "Publishing…"} · ${r.author || "unknown"}`;
+}
+
+/**
+ * Published revisions (newest = live) with a field-level diff between any two
+ * and a restore button that publishes an older one again.
+ */
+export function SettingsHistory({
+  onRestore,
+  disabled = false,
+}: {
+  onRestore: (revision: PublishedRevision) => void;
+  disabled?: boolean;
+}) {
+  const { revisions, loading } = useSettingsHistory();
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+
+  // Default to the latest change: previous revision → live one.
+  useEffect(() => {
+    if (!revisions.some((r) => r.id === toId)) setToId(revisions[0]?.id ?? "");
+    if (!revisions.some((r) => r.id === fromId)) setFromId(revisions[1]?.id ?? "");
+  }, [revisions]);
+
+  const from = revisions.find((r) => r.id === fromId) ?? null;
+  const to = revisions.find((r) => r.id === toId) ?? null;
+  const changes = useMemo(
+    () => (from && to ? diffSettings(from.settings, to.settings) : []),
+    [from, to]
+  );
+
+  const selectClass =
+    "w-full px-4 py-3 border border-stone-200 rounded-xl focus:border-amber-600 outline-none transition-colors bg-white text-sm";
+  const labelClass =
+    "block text-[11px] tracking-[0.25em] uppercase text-stone-400 mb-2 font-medium";
+
+  return (
+    <section className="bg-white border border-stone-200 rounded-2xl shadow-sm p-6 space-y-5">
+      <div>
+        <h4 className="text-[11px] tracking-[0.3em] uppercase text-stone-400 font-semibold">
+          Version History
+        </h4>
+        <p className="text-[12px] text-stone-400 mt-2">
+          Every publish is kept here. Restoring an older version publishes it again (and loads it
+          into the editor); the restore is itself a new version, so it can be undone.
+        </p>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-stone-400">Loading history…</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-stone-400">Nothing published yet.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-stone-100 border border-stone-100 rounded-xl max-h-72 overflow-y-auto">
+            {revisions.map((r, i) => (
+              <li key={r.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-stone-700 truncate">
+                    {revisionLabel(r)}
+                    {i === 0 ? (
+                      <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-[10px] tracking-widest uppercase bg-emerald-50 border border-emerald-200 text-emerald-700">
+                        Live
+                      </span>
+                    ) : null}
+                  </p>
+                  {r.restoredFrom ? (
+                    <p className="text-[12px] text-stone-400">
+                      Restored{" "}
+                      {(() => {
+                        const source = revisions.find((x) => x.id === r.restoredFrom);
+                        return source ? `from ${revisionLabel(source)}` : "an older version";
+                      })()}
+                    </p>
+                  ) : null}
+                </div>
+                {i > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => onRestore(r)}
+                    disabled={disabled}
+                    className="shrink-0 text-[12px] text-amber-700 hover:text-amber-800 disabled:opacity-40"
+                  >
+                    Restore
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+
+          {revisions.length > 1 ? (
+            <div className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Compare</label>
+                  <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                    {revisions.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {revisionLabel(r)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>With</label>
+                  <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                    {revisions.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {revisionLabel(r)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {changes.length === 0 ? (
+                <p className="text-sm text-stone-400">No differences.</p>
+              ) : (
+                <div className="border border-stone-100 rounded-xl overflow-x-auto">
+                  <table className="w-full text-[12px]">
+                    <thead className="bg-stone-50 text-stone-400 text-left">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Field ({changes.length})</th>
+                        <th className="px-4 py-2 font-medium">Before</th>
+                        <th className="px-4 py-2 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-stone-100">
+                      {changes.map((c) => (
+                        <tr key={c.path} className="align-top">
+                          <td className="px-4 py-2 font-mono text-stone-600 break-all">{c.path}</td>
+                          <td className="px-4 py-2 text-red-700 bg-red-50/40 break-all whitespace-pre-wrap">
+                            {formatDiffValue(c.before)}
+                          </td>
+                          <td className="px-4 py-2 text-emerald-700 bg-emerald-50/40 break-all whitespace-pre-wrap">
+                            {formatDiffValue(c.after)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ) : null}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,27 @@
+import { isFlaggedAsSpam, type SpamAssessment } from "../api/firestoreService";
+
+/** "Likely spam" pill for flagged submissions; renders nothing otherwise. */
+export function SpamBadge({ spam }: { spam?: SpamAssessment }) {
+  if (!spam || !isFlaggedAsSpam({ spam })) return null;
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium border bg-red-50 text-red-700 border-red-200"
+      title={spam.reasons.join(", ")}
+    >
+      Likely spam · {spam.score}
+    </span>
+  );
+}
+
+/** Spam score line for detail modals. */
+export function SpamDetails({ spam }: { spam?: SpamAssessment }) {
+  if (!spam) {
+    return <p className="text-[12px] text-stone-400">Not spam-checked (submitted without the API server).</p>;
+  }
+  return (
+    <p className={"text-[12px] " + (isFlaggedAsSpam({ spam }) ? "text-red-700" : "text-stone-400")}>
+      Spam score {spam.score}/100
+      {spam.reasons.length ? ` — ${spam.reasons.join(", ")}` : ""}
+    </p>
+  );
+}
@@ -0,0 +1,81 @@
+import { useRef, useState } from "react";
+import { uploadMedia, type UploadFolder } from "../api/storageService";
+import type { ResponsiveImage } from "../siteSettings";
+
+/**
+ * File picker that uploads to Firebase Storage with a progress bar and hands
+ * each resulting URL (plus its resized variants for images, or poster frame
+ * for videos) to `onUploaded`, in the order the files were picked.
+ */
+export function UploadButton({
+  folder,
+  onUploaded,
+  label = "Upload",
+  multiple = false,
+  allowVideo = false,
+  className,
+}: {
+  folder: UploadFolder;
+  onUploaded: (url: string, responsive?: ResponsiveImage, poster?: string) => void;
+  label?: string;
+  multiple?: boolean;
+  allowVideo?: boolean;
+  className: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<{ file: number; total: number; percent: number } | null>(null);
+  const [error, setError] = useState("");
+
+  const onFiles = async (files: File[]) => {
+    setError("");
+    for (let i = 0; i < files.length; i++) {
+      setProgress({ file: i + 1, total: files.length, percent: 0 });
+      const result = await uploadMedia(files[i], folder, {
+        allowVideo,
+        onProgress: (percent) => setProgress({ file: i + 1, total: files.length, percent }),
+      });
+      if (!result.ok) {
+        setError(files.length > 1 ? `${files[i].name}: ${result.message}` : result.message);
+        break;
+      }
+      onUploaded(result.url, result.responsive, result.poster);
+    }
+    setProgress(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        multiple={multiple}
+        accept={allowVideo ? "image/*,video/mp4,video/webm" : "image/*"}
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length) onFiles(files);
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={progress !== null}
+        className={className}
+      >
+        {progress
+          ? `Uploading${progress.total > 1 ? ` ${progress.file}/${progress.total}` : ""}… ${Math.round(progress.percent)}%`
+          : label}
+      </button>
+      {progress ? (
+        <div className="h-1.5 w-full bg-stone-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-amber-600 transition-[width] duration-200"
+            style={{ width: `${progress.percent}%` }}
+          />
+        </div>
+      ) : null}
+      {error ? <p className="text-[12px] text-red-600">{error}</p> : null}
+    </div>
+  );
+}
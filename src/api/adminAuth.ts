@@ -1,40 +1,108 @@
 import {
+  sendEmailVerification,
   signInWithEmailAndPassword,
   signOut,
   onAuthStateChanged,
   User,
 } from "firebase/auth";
 import { auth } from "../firebase";
+import { fetchStaffMember, type AdminRole } from "./firestoreService";
 
-const ADMIN_EMAIL = "jayteca15@gmail.com";
+export type { AdminRole } from "./firestoreService";
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "manager", "stylist", "read-only"];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  stylist: "Stylist",
+  "read-only": "Read-only",
+};
+
+export type AdminPermission =
+  | "appointments.manage"
+  | "appointments.overbook"
+  | "appointments.delete"
+  | "reviews.moderate"
+  | "settings.edit"
+  | "staff.manage";
+
+/**
+ * What each role may change. Everyone on the allowlist can view appointments
+ * and reviews. Keep in sync with hasRole() checks in firestore.rules.
+ */
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: [
+    "appointments.manage",
+    "appointments.overbook",
+    "appointments.delete",
+    "reviews.moderate",
+    "settings.edit",
+    "staff.manage",
+  ],
+  manager: [
+    "appointments.manage",
+    "appointments.overbook",
+    "appointments.delete",
+    "reviews.moderate",
+    "settings.edit",
+  ],
+  stylist: ["appointments.manage"],
+  "read-only": [],
+};
+
+export function can(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+}
+
+export interface AdminProfile {
+  email: string;
+  role: AdminRole;
+  name?: string;
+}
 
 export type AdminAuthResult =
-  | { ok: true; email: string }
+  | { ok: true; profile: AdminProfile }
   | { ok: false; message: string };
 
+/** The signed-in user's active staff entry, or null if they aren't on the allowlist. */
+// The allowlist is keyed by email, so an unverified address proves nothing:
+// anyone could register an address an owner has added but not yet used.
+async function loadProfile(user: User): Promise<AdminProfile | null> {
+  const email = (user.email || "").toLowerCase();
+  if (!email || !user.emailVerified) return null;
+  const member = await fetchStaffMember(email);
+  if (!member || member.active === false || !ADMIN_ROLES.includes(member.role)) return null;
+  return { email, role: member.role, name: member.name };
+}
+
 /**
- * Sign in via Firebase Authentication.
+ * Sign in via Firebase Authentication, then check the staff allowlist.
  */
 export async function adminLogin(
   email: string,
   password: string
 ): Promise<AdminAuthResult> {
-  // Basic guard so only the expected admin email can use the panel.
-  if (String(email).trim().toLowerCase() !== ADMIN_EMAIL.toLowerCase()) {
-    return { ok: false, message: "Unauthorized admin email" };
-  }
-
   try {
     const cred = await signInWithEmailAndPassword(auth, email, password);
 
-    // If another Firebase user somehow signs in, sign them out immediately.
-    const userEmail = cred.user.email || "";
-    if (userEmail.toLowerCase() !== ADMIN_EMAIL.toLowerCase()) {
+    if (!cred.user.emailVerified) {
+      await sendEmailVerification(cred.user).catch(() => {});
+      await signOut(auth);
+      return {
+        ok: false,
+        message: `Please verify your email first. We've sent a link to ${cred.user.email}; open it, then sign in again.`,
+      };
+    }
+
+    // Any Firebase user can sign in; only staff on the allowlist get the panel.
+    const profile = await loadProfile(cred.user);
+    if (!profile) {
       await signOut(auth);
-      return { ok: false, message: "Unauthorized admin account" };
+      return { ok: false, message: "This account doesn't have admin access" };
     }
 
-    return { ok: true, email: userEmail || email };
+    return { ok: true, profile };
   } catch (err: unknown) {
     const code = (err as { code?: string }).code ?? "";
     let message = "Invalid email or password";
@@ -65,32 +133,42 @@ export async function adminLogout(): Promise<void> {
 }
 
 /**
- * Check if a user is currently authenticated.
- * Returns the User object or null.
+ * Resolve the current session to a staff profile.
+ * Returns null when signed out or not on the allowlist.
  */
-export function adminMe(): Promise<boolean> {
+export function adminMe(): Promise<AdminProfile | null> {
   return new Promise((resolve) => {
     const unsubscribe = onAuthStateChanged(auth, async (user: User | null) => {
       unsubscribe();
-      const email = user?.email || "";
+      if (!user) {
+        resolve(null);
+        return;
+      }
 
-      // Only treat the session as authenticated if it is the admin email.
-      if (user && email.toLowerCase() !== ADMIN_EMAIL.toLowerCase()) {
-        // Defensive: sign out any non-admin user to prevent accidental access.
+      const profile = await loadProfile(user);
+      if (!profile) {
+        // Defensive: sign out any non-staff user to prevent accidental access.
         try {
           await signOut(auth);
         } catch {
           // ignore
         }
-        resolve(false);
-        return;
       }
-
-      resolve(!!user);
+      resolve(profile);
     });
   });
 }
 
+/** Email of the signed-in admin, recorded as the actor on appointment history. */
+export function currentAdminEmail(): string {
+  return auth.currentUser?.email ?? "";
+}
+
+/** Firebase ID token of the signed-in admin, for staff-only API calls. */
+export async function currentAdminIdToken(): Promise<string> {
+  return (await auth.currentUser?.getIdToken()) ?? "";
+}
+
 /**
  * Subscribe to auth state changes.
  */
@@ -9,16 +9,31 @@ import {
   deleteDoc,
   query,
   orderBy,
+  arrayUnion,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+  type DocumentSnapshot,
+  type WriteBatch,
+  where,
+  writeBatch,
   onSnapshot,
+  limit,
+  runTransaction,
   Unsubscribe,
 } from "firebase/firestore";
 import { db } from "../firebase";
 
 // =====================================================================
 // SITE SETTINGS
+// The public site (and the API server) read the published `siteConfig`;
+// the admin panel edits `siteConfigDraft` and publishes it when ready.
+// Every publish also adds a revision under `siteConfig/history`.
 // =====================================================================
 
 const SETTINGS_DOC = "siteConfig";
+const SETTINGS_DRAFT_DOC = "siteConfigDraft";
+const SETTINGS_HISTORY = "history";
 const SETTINGS_COLLECTION = "settings";
 
 export async function fetchSiteSettings(): Promise<Record<string, unknown> | null> {
@@ -33,17 +48,6 @@ export async function fetchSiteSettings(): Promise<Record<string, unknown> | nul
   }
 }
 
-export async function saveSiteSettingsToFirestore(data: Record<string, unknown>): Promise<boolean> {
-  try {
-    const ref = doc(db, SETTINGS_COLLECTION, SETTINGS_DOC);
-    await setDoc(ref, data, { merge: true });
-    return true;
-  } catch (err) {
-    console.warn("Firestore: could not save settings", err);
-    return false;
-  }
-}
-
 export function subscribeSiteSettings(
   callback: (data: Record<string, unknown> | null) => void
 ): Unsubscribe {
@@ -61,14 +65,180 @@ export function subscribeSiteSettings(
   );
 }
 
+export function subscribeSiteSettingsDraft(
+  callback: (data: Record<string, unknown> | null) => void
+): Unsubscribe {
+  const ref = doc(db, SETTINGS_COLLECTION, SETTINGS_DRAFT_DOC);
+  return onSnapshot(
+    ref,
+    (snap) => callback(snap.exists() ? (snap.data() as Record<string, unknown>) : null),
+    (err) => {
+      console.warn("Firestore settings draft listener error", err);
+      callback(null);
+    }
+  );
+}
+
+/** Replaces the draft (no merge, so removed map entries don't linger). */
+export async function saveSiteSettingsDraft(data: Record<string, unknown>): Promise<boolean> {
+  try {
+    await setDoc(doc(db, SETTINGS_COLLECTION, SETTINGS_DRAFT_DOC), data);
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not save settings draft", err);
+    return false;
+  }
+}
+
+/** One published version of the settings (append-only). */
+export interface SettingsRevision {
+  id: string;
+  publishedAt: string;
+  /** Admin email. */
+  author: string;
+  /** The published settings as stored. */
+  settings: Record<string, unknown>;
+  /** Set when this publish rolled back to an older revision (its id). */
+  restoredFrom?: string;
+}
+
+function historyCollection() {
+  return collection(db, SETTINGS_COLLECTION, SETTINGS_DOC, SETTINGS_HISTORY);
+}
+
+function revisionFromDoc(d: DocumentSnapshot): SettingsRevision {
+  const data = d.data({ serverTimestamps: "estimate" }) ?? {};
+  const publishedAt =
+    data.publishedAt instanceof Timestamp ? data.publishedAt.toDate().toISOString() : "";
+  return { id: d.id, ...data, publishedAt } as SettingsRevision;
+}
+
+/**
+ * Copies the saved draft over the published settings and records the
+ * revision in one transaction, so visitors never see a half-written mix.
+ */
+export async function publishSiteSettingsDraft(author: string): Promise<boolean> {
+  try {
+    return await runTransaction(db, async (tx) => {
+      const draft = await tx.get(doc(db, SETTINGS_COLLECTION, SETTINGS_DRAFT_DOC));
+      if (!draft.exists()) return false;
+      tx.set(doc(db, SETTINGS_COLLECTION, SETTINGS_DOC), draft.data());
+      tx.set(doc(historyCollection()), {
+        settings: draft.data(),
+        author,
+        publishedAt: serverTimestamp(),
+      });
+      return true;
+    });
+  } catch (err) {
+    console.warn("Firestore: could not publish settings", err);
+    return false;
+  }
+}
+
+/**
+ * Publishes an older revision again (and makes it the draft), recorded as a
+ * new revision so the rollback itself can be undone.
+ */
+export async function restoreSettingsRevision(
+  revisionId: string,
+  author: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    return await runTransaction(db, async (tx) => {
+      const revision = await tx.get(doc(historyCollection(), revisionId));
+      const settings = revision.data()?.settings as Record<string, unknown> | undefined;
+      if (!settings) return null;
+      tx.set(doc(db, SETTINGS_COLLECTION, SETTINGS_DRAFT_DOC), settings);
+      tx.set(doc(db, SETTINGS_COLLECTION, SETTINGS_DOC), settings);
+      tx.set(doc(historyCollection()), {
+        settings,
+        author,
+        publishedAt: serverTimestamp(),
+        restoredFrom: revisionId,
+      });
+      return settings;
+    });
+  } catch (err) {
+    console.warn("Firestore: could not restore settings revision", err);
+    return null;
+  }
+}
+
+/** Newest first. */
+export function subscribeSettingsRevisions(
+  callback: (revisions: SettingsRevision[]) => void,
+  max = 50
+): Unsubscribe {
+  const q = query(historyCollection(), orderBy("publishedAt", "desc"), limit(max));
+  return onSnapshot(
+    q,
+    (snap) => callback(snap.docs.map(revisionFromDoc)),
+    (err) => {
+      console.warn("Firestore settings history listener error", err);
+      callback([]);
+    }
+  );
+}
+
+// =====================================================================
+// SPAM SCORING
+// Set by the API server (server/spam.js) on public submissions.
+// =====================================================================
+
+export interface SpamAssessment {
+  /** 0 (clean) to 100 (certainly spam). */
+  score: number;
+  reasons: string[];
+}
+
+/** Submissions at or above this score are flagged in the admin UI. */
+export const SPAM_FLAG_THRESHOLD = 50;
+
+export function isFlaggedAsSpam(item: { spam?: SpamAssessment }) {
+  return (item.spam?.score ?? 0) >= SPAM_FLAG_THRESHOLD;
+}
+
 // =====================================================================
 // APPOINTMENTS
 // =====================================================================
 
 const APPOINTMENTS_COLLECTION = "appointments";
 
+export type AppointmentStatus =
+  | "pending"
+  | "confirmed"
+  | "rescheduled"
+  | "completed"
+  | "no-show"
+  | "cancelled";
+
+/** One entry in an appointment's timeline (append-only). */
+export interface AppointmentHistoryEntry {
+  at: string;
+  /** Admin email, or "client" for the original request. */
+  actor: string;
+  status: AppointmentStatus;
+  /** Set when rescheduled: the slot before the change. */
+  previous?: { date: string; time: string };
+  note?: string;
+}
+
+/** Promo code applied to a booking, as checked by the server when it was made. */
+export interface AppointmentPromo {
+  /** Promotion id in settings. */
+  id: string;
+  code: string;
+  /** Promotion title at booking time. */
+  title: string;
+  /** e.g. "20% off"; empty when the code carries no discount. */
+  discount: string;
+}
+
 export interface FirestoreAppointment {
   id?: string;
+  /** Human-friendly reference shown to the client (e.g. "BB-7KQ2XM"). */
+  reference?: string;
   createdAt: string;
   firstName: string;
   lastName: string;
@@ -76,9 +246,19 @@ export interface FirestoreAppointment {
   phone: string;
   date: string;
   time: string;
+  /** Chair time blocked by this booking; falls back to the service duration. */
+  durationMinutes?: number;
   service: string;
+  /** Preferred stylist (team member id) and their name at booking time. */
+  stylist?: string;
+  stylistName?: string;
   message: string;
-  status: "pending" | "confirmed";
+  promo?: AppointmentPromo;
+  /** Cancelled bookings no longer block their slot. */
+  status: AppointmentStatus;
+  /** Oldest first. Bookings saved before history was kept have none. */
+  history?: AppointmentHistoryEntry[];
+  spam?: SpamAssessment;
 }
 
 export async function fetchAppointments(): Promise<FirestoreAppointment[]> {
@@ -109,11 +289,15 @@ export async function addAppointment(
 
 export async function updateAppointmentStatus(
   id: string,
-  status: "pending" | "confirmed"
+  status: AppointmentStatus,
+  actor: string,
+  note?: string
 ): Promise<boolean> {
   try {
     const ref = doc(db, APPOINTMENTS_COLLECTION, id);
-    await updateDoc(ref, { status });
+    const entry: AppointmentHistoryEntry = { at: new Date().toISOString(), actor, status };
+    if (note) entry.note = note;
+    await updateDoc(ref, { status, history: arrayUnion(entry) });
     return true;
   } catch (err) {
     console.warn("Firestore: could not update appointment", err);
@@ -171,6 +355,17 @@ export function subscribeAppointments(
 
 const REVIEWS_COLLECTION = "reviews";
 
+/** Mirrors the review limits checked by the API server (server/reviews.js). */
+export const REVIEW_LIMITS = {
+  nameMin: 2,
+  name: 60,
+  service: 80,
+  textMin: 10,
+  text: 500,
+} as const;
+
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
 export interface FirestoreReview {
   id?: string;
   name: string;
@@ -178,35 +373,71 @@ export interface FirestoreReview {
   rating: number;
   text: string;
   date: string;
+  /** Only approved reviews are public. Reviews saved before moderation have none. */
+  status?: ReviewStatus;
+  moderatedAt?: string;
+  moderatedBy?: string;
+  /** Public reply from the salon, shown under the review. */
+  reply?: ReviewReply;
+  /** Missing on reviews that didn't come through the API server. */
+  spam?: SpamAssessment;
+}
+
+/** Stored on the public review doc, so no admin details go in here. */
+export interface ReviewReply {
+  text: string;
+  date: string;
+}
+
+// `date` is a server timestamp on new reviews and an ISO string on older ones.
+function reviewFromDoc(d: DocumentSnapshot): FirestoreReview {
+  const data = d.data({ serverTimestamps: "estimate" }) ?? {};
+  const date = data.date instanceof Timestamp ? data.date.toDate().toISOString() : String(data.date ?? "");
+  return { id: d.id, ...data, date } as FirestoreReview;
+}
+
+/** Reviews without a status predate moderation and wait in the queue like new ones. */
+export function getReviewStatus(review: FirestoreReview): ReviewStatus {
+  return review.status ?? "pending";
 }
 
 export async function fetchReviews(): Promise<FirestoreReview[]> {
   try {
     const q = query(
       collection(db, REVIEWS_COLLECTION),
+      where("status", "==", "approved"),
       orderBy("date", "desc")
     );
     const snap = await getDocs(q);
-    return snap.docs.map((d) => ({ id: d.id, ...d.data() } as FirestoreReview));
+    return snap.docs.map(reviewFromDoc);
   } catch (err) {
     console.warn("Firestore: could not fetch reviews", err);
     return [];
   }
 }
 
-export async function addReview(
-  data: Omit<FirestoreReview, "id">
-): Promise<string | null> {
-  try {
-    const ref = await addDoc(collection(db, REVIEWS_COLLECTION), data);
-    return ref.id;
-  } catch (err) {
-    console.warn("Firestore: could not add review", err);
-    return null;
-  }
+/** Approved reviews only (what the public site shows). */
+export function subscribeReviews(
+  callback: (data: FirestoreReview[]) => void
+): Unsubscribe {
+  const q = query(
+    collection(db, REVIEWS_COLLECTION),
+    where("status", "==", "approved"),
+    orderBy("date", "desc")
+  );
+  return onSnapshot(
+    q,
+    (snap) => {
+      callback(snap.docs.map(reviewFromDoc));
+    },
+    (err) => {
+      console.warn("Firestore reviews listener error", err);
+    }
+  );
 }
 
-export function subscribeReviews(
+/** Every review regardless of status (admin only). */
+export function subscribeAllReviews(
   callback: (data: FirestoreReview[]) => void
 ): Unsubscribe {
   const q = query(
@@ -216,10 +447,7 @@ export function subscribeReviews(
   return onSnapshot(
     q,
     (snap) => {
-      const list = snap.docs.map(
-        (d) => ({ id: d.id, ...d.data() } as FirestoreReview)
-      );
-      callback(list);
+      callback(snap.docs.map(reviewFromDoc));
     },
     (err) => {
       console.warn("Firestore reviews listener error", err);
@@ -227,6 +455,67 @@ export function subscribeReviews(
   );
 }
 
+export async function updateReview(
+  id: string,
+  patch: Partial<Pick<FirestoreReview, "name" | "service" | "rating" | "text">>
+): Promise<boolean> {
+  try {
+    const ref = doc(db, REVIEWS_COLLECTION, id);
+    await updateDoc(ref, patch);
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not update review", err);
+    return false;
+  }
+}
+
+/** Set the salon's public reply, or remove it when `reply` is null. */
+export async function setReviewReply(
+  id: string,
+  reply: ReviewReply | null
+): Promise<boolean> {
+  try {
+    const ref = doc(db, REVIEWS_COLLECTION, id);
+    await updateDoc(ref, { reply: reply ?? deleteField() });
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not save review reply", err);
+    return false;
+  }
+}
+
+/** Firestore allows at most 500 writes per batch. */
+const BATCH_LIMIT = 500;
+
+/** Applies `write` to each id, committing a batch for every 500 ids. */
+async function commitInBatches(
+  ids: string[],
+  write: (batch: WriteBatch, id: string) => void
+) {
+  for (let i = 0; i < ids.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    ids.slice(i, i + BATCH_LIMIT).forEach((id) => write(batch, id));
+    await batch.commit();
+  }
+}
+
+export async function setReviewsStatus(
+  ids: string[],
+  status: ReviewStatus,
+  moderatedBy: string
+): Promise<boolean> {
+  try {
+    const moderatedAt = new Date().toISOString();
+    await commitInBatches(ids, (batch, id) =>
+      batch.update(doc(db, REVIEWS_COLLECTION, id), { status, moderatedAt, moderatedBy })
+    );
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not update review status", err);
+    return false;
+  }
+}
+
 export async function deleteReview(id: string): Promise<boolean> {
   try {
     const ref = doc(db, REVIEWS_COLLECTION, id);
@@ -237,3 +526,89 @@ export async function deleteReview(id: string): Promise<boolean> {
     return false;
   }
 }
+
+export async function deleteReviews(ids: string[]): Promise<boolean> {
+  try {
+    await commitInBatches(ids, (batch, id) => batch.delete(doc(db, REVIEWS_COLLECTION, id)));
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not delete reviews", err);
+    return false;
+  }
+}
+
+// =====================================================================
+// STAFF
+// Admin allowlist: one doc per login, keyed by lowercased email. Checked
+// by adminLogin/adminMe and by isStaff()/hasRole() in firestore.rules.
+// =====================================================================
+
+const STAFF_COLLECTION = "admins";
+
+export type AdminRole = "owner" | "manager" | "stylist" | "read-only";
+
+export interface StaffMember {
+  /** Lowercased login email (also the document id). */
+  email: string;
+  role: AdminRole;
+  name?: string;
+  /** Set to false to suspend a login without removing it. */
+  active?: boolean;
+  createdAt?: string;
+  createdBy?: string;
+}
+
+function staffId(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export async function fetchStaffMember(email: string): Promise<StaffMember | null> {
+  try {
+    const snap = await getDoc(doc(db, STAFF_COLLECTION, staffId(email)));
+    return snap.exists() ? ({ ...snap.data(), email: snap.id } as StaffMember) : null;
+  } catch (err) {
+    console.warn("Firestore: could not fetch staff member", err);
+    return null;
+  }
+}
+
+export function subscribeStaff(
+  callback: (data: StaffMember[]) => void
+): Unsubscribe {
+  return onSnapshot(
+    collection(db, STAFF_COLLECTION),
+    (snap) => {
+      const list = snap.docs.map((d) => ({ ...d.data(), email: d.id } as StaffMember));
+      callback(list.sort((a, b) => a.email.localeCompare(b.email)));
+    },
+    (err) => {
+      console.warn("Firestore staff listener error", err);
+    }
+  );
+}
+
+/** Create or patch a staff login; `email` is normalised into the doc id. */
+export async function saveStaffMember(
+  member: Pick<StaffMember, "email"> & Partial<StaffMember>
+): Promise<boolean> {
+  try {
+    const { email, ...rest } = member;
+    // Firestore rejects undefined values; leave unset fields untouched instead.
+    const data = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+    await setDoc(doc(db, STAFF_COLLECTION, staffId(email)), data, { merge: true });
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not save staff member", err);
+    return false;
+  }
+}
+
+export async function deleteStaffMember(email: string): Promise<boolean> {
+  try {
+    await deleteDoc(doc(db, STAFF_COLLECTION, staffId(email)));
+    return true;
+  } catch (err) {
+    console.warn("Firestore: could not delete staff member", err);
+    return false;
+  }
+}
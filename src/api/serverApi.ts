@@ -0,0 +1,136 @@
+import type { BookedSlot, BookingValidation } from "../booking";
+import type { FirestoreReview } from "./firestoreService";
+import { currentAdminIdToken } from "./adminAuth";
+
+// Public submissions go through the Express server (server/index.js): it
+// rate-limits per IP, scores spam, and checks slot capacity in a Firestore
+// transaction rather than in the browser. Staff reschedules go through it too,
+// signed with the admin's Firebase ID token.
+// Configure via Vite env vars (.env): VITE_API_BASE_URL (defaults to same origin).
+
+const env = (import.meta as unknown as Record<string, Record<string, string>>).env ?? {};
+const API_BASE = (env.VITE_API_BASE_URL || "").replace(/\/+$/, "");
+
+type AppointmentInput = Extract<BookingValidation, { ok: true }>["data"];
+
+export type SubmitAppointmentResult =
+  | { ok: true; id: string; reference: string }
+  | { ok: false; message: string; field?: string; code?: string };
+
+/**
+ * Non-cancelled bookings on a date (service, time and duration only).
+ * Returns null when the API can't be reached.
+ */
+export async function fetchBookedSlots(date: string): Promise<BookedSlot[] | null> {
+  try {
+    const res = await fetch(
+      `${API_BASE}/api/availability?date=${encodeURIComponent(date)}`,
+      { cache: "no-store" }
+    );
+    if (!res.ok) return null;
+    const body = (await res.json()) as { ok?: boolean; booked?: BookedSlot[] };
+    return body.ok && Array.isArray(body.booked) ? body.booked : null;
+  } catch (err) {
+    console.warn("Booking API: could not fetch availability", err);
+    return null;
+  }
+}
+
+export async function submitAppointment(
+  data: AppointmentInput
+): Promise<SubmitAppointmentResult> {
+  try {
+    const res = await fetch(`${API_BASE}/api/appointments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    const body = (await res.json().catch(() => ({}))) as Partial<{
+      id: string;
+      reference: string;
+      message: string;
+      field: string;
+      code: string;
+    }>;
+    if (res.ok && body.id && body.reference) {
+      return { ok: true, id: body.id, reference: body.reference };
+    }
+    return {
+      ok: false,
+      message: body.message || "We couldn't save your booking request.",
+      field: body.field,
+      code: body.code,
+    };
+  } catch (err) {
+    console.warn("Booking API: could not submit appointment", err);
+    return { ok: false, message: "We couldn't reach the booking service." };
+  }
+}
+
+export type SubmitReviewResult =
+  | { ok: true; id: string }
+  | { ok: false; message: string; field?: string; code?: string };
+
+/** Queue a review for moderation. */
+export async function submitReview(
+  data: Pick<FirestoreReview, "name" | "service" | "rating" | "text"> & { website: string }
+): Promise<SubmitReviewResult> {
+  try {
+    const res = await fetch(`${API_BASE}/api/reviews`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    const body = (await res.json().catch(() => ({}))) as Partial<{
+      id: string;
+      message: string;
+      field: string;
+      code: string;
+    }>;
+    if (res.ok && body.id) return { ok: true, id: body.id };
+    return {
+      ok: false,
+      message: body.message || "Could not submit your review right now. Please try again.",
+      field: body.field,
+      code: body.code,
+    };
+  } catch (err) {
+    console.warn("Review API: could not submit review", err);
+    return {
+      ok: false,
+      message: "Could not submit your review right now. Please try again.",
+    };
+  }
+}
+
+export type RescheduleResult = { ok: true } | { ok: false; message: string; code?: string };
+
+/**
+ * Move a booking to a new slot (staff only). The server checks opening hours
+ * and capacity; `allowOverbook` is honoured for owners and managers only.
+ */
+export async function rescheduleAppointment(
+  id: string,
+  change: { date: string; time: string; note?: string; allowOverbook?: boolean }
+): Promise<RescheduleResult> {
+  try {
+    const res = await fetch(`${API_BASE}/api/appointments/${encodeURIComponent(id)}/reschedule`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${await currentAdminIdToken()}`,
+      },
+      body: JSON.stringify(change),
+    });
+    const body = (await res.json().catch(() => ({}))) as Partial<{ message: string; code: string }>;
+    if (res.ok) return { ok: true };
+    return {
+      ok: false,
+      message: body.message || "Could not reschedule the appointment. Please try again.",
+      code: body.code,
+    };
+  } catch (err) {
+    console.warn("Booking API: could not reschedule appointment", err);
+    return { ok: false, message: "Couldn't reach the booking service. Please try again." };
+  }
+}
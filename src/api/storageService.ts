@@ -0,0 +1,155 @@
+import { getDownloadURL, ref, uploadBytesResumable, type StorageError } from "firebase/storage";
+import { storage } from "../firebase";
+import type { ResponsiveImage } from "../siteSettings";
+import { captureVideoFrame, processImage } from "../utils/imageProcessing";
+
+// Admin media uploads to Firebase Storage (uploads/<folder>/…). Files are
+// public once uploaded; storage.rules only lets owners/managers create them.
+// Images are resized and re-encoded in the browser first (see
+// utils/imageProcessing.ts); videos are uploaded as-is with a captured poster frame.
+
+export type UploadFolder = "gallery" | "promotions";
+
+/**
+ * Accepted picks. Images are checked before processing; the stored variants
+ * are far smaller than the 10 MB per-file limit in storage.rules. Video limits
+ * mirror isVideo() there.
+ */
+export const UPLOAD_LIMITS = {
+  image: { types: ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"], maxBytes: 40 * 1024 * 1024 },
+  video: { types: ["video/mp4", "video/webm"], maxBytes: 100 * 1024 * 1024 },
+};
+
+export type UploadResult =
+  | { ok: true; url: string; responsive?: ResponsiveImage; poster?: string }
+  | { ok: false; message: string };
+
+function formatMegabytes(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/** Friendly message for a file that can't be uploaded, or null when it's fine. */
+export function validateUpload(file: File, allowVideo: boolean): string | null {
+  const kind = file.type.startsWith("video/") ? UPLOAD_LIMITS.video : UPLOAD_LIMITS.image;
+  if (!kind.types.includes(file.type) || (kind === UPLOAD_LIMITS.video && !allowVideo)) {
+    return allowVideo
+      ? "Please choose a JPEG, PNG, WebP, AVIF or GIF image, or an MP4/WebM video."
+      : "Please choose a JPEG, PNG, WebP, AVIF or GIF image.";
+  }
+  if (file.size > kind.maxBytes) {
+    return `That file is too large (max ${formatMegabytes(kind.maxBytes)}).`;
+  }
+  return null;
+}
+
+/** "IMG_2041 (1).JPG" → "img-2041-1" */
+function fileBaseName(file: File) {
+  const dot = file.name.lastIndexOf(".");
+  const base = (dot > 0 ? file.name.slice(0, dot) : file.name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  // Timestamp prefix keeps names unique without overwriting (updates are denied by the rules).
+  return `${Date.now()}-${base || "file"}`;
+}
+
+function uploadErrorMessage(err: unknown) {
+  const code = (err as StorageError | undefined)?.code ?? "";
+  return code === "storage/unauthorized"
+    ? "You don't have permission to upload files."
+    : "Upload failed. Please try again.";
+}
+
+/** Upload one blob and resolve to its download URL; `onBytes` reports bytes sent so far. */
+function putFile(path: string, blob: Blob, onBytes?: (sent: number) => void): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, path), blob, {
+      contentType: blob.type,
+      cacheControl: "public, max-age=31536000, immutable",
+    });
+    task.on(
+      "state_changed",
+      (snap) => onBytes?.(snap.bytesTransferred),
+      reject,
+      () => getDownloadURL(task.snapshot.ref).then(resolve, reject)
+    );
+  });
+}
+
+/**
+ * Upload a file and resolve to its public download URL. Images are processed
+ * into responsive variants under uploads/<folder>/<name>/ and the result
+ * carries them; the returned `url` is the largest JPEG (the `<img src>`).
+ * Videos also carry a `poster` still. `onProgress` receives 0–100.
+ */
+export async function uploadMedia(
+  file: File,
+  folder: UploadFolder,
+  { allowVideo = false, onProgress }: { allowVideo?: boolean; onProgress?: (percent: number) => void } = {}
+): Promise<UploadResult> {
+  const invalid = validateUpload(file, allowVideo);
+  if (invalid) return { ok: false, message: invalid };
+  const name = fileBaseName(file);
+
+  if (file.type.startsWith("video/")) {
+    try {
+      const ext = file.type === "video/webm" ? "webm" : "mp4";
+      const url = await putFile(`uploads/${folder}/${name}.${ext}`, file, (sent) =>
+        onProgress?.(file.size ? (sent / file.size) * 100 : 0)
+      );
+      // A missing poster isn't worth failing the upload for; one can be set by hand.
+      let poster: string | undefined;
+      try {
+        poster = await putFile(`uploads/${folder}/${name}-poster.jpg`, await captureVideoFrame(file));
+      } catch (err) {
+        console.warn("Storage: poster frame failed", err);
+      }
+      return { ok: true, url, poster };
+    } catch (err) {
+      console.warn("Storage: upload failed", err);
+      return { ok: false, message: uploadErrorMessage(err) };
+    }
+  }
+
+  let processed;
+  try {
+    processed = await processImage(file);
+  } catch (err) {
+    console.warn("Image processing failed", err);
+    return {
+      ok: false,
+      message: "That image couldn't be read. Please export it as a JPEG or PNG and try again.",
+    };
+  }
+
+  const total = processed.variants.reduce((sum, v) => sum + v.blob.size, 0);
+  const sent = processed.variants.map(() => 0);
+  try {
+    const urls = await Promise.all(
+      processed.variants.map((v, i) =>
+        putFile(`uploads/${folder}/${name}/${v.width}.${v.format === "jpeg" ? "jpg" : v.format}`, v.blob, (bytes) => {
+          sent[i] = bytes;
+          onProgress?.(total ? (sent.reduce((a, b) => a + b, 0) / total) * 100 : 0);
+        })
+      )
+    );
+    const variants = processed.variants.map((v, i) => ({ width: v.width, format: v.format, url: urls[i] }));
+    const fallback = variants
+      .filter((v) => v.format === "jpeg")
+      .sort((a, b) => b.width - a.width)[0];
+    return {
+      ok: true,
+      url: fallback.url,
+      responsive: {
+        width: processed.width,
+        height: processed.height,
+        placeholder: processed.placeholder,
+        variants,
+      },
+    };
+  } catch (err) {
+    console.warn("Storage: upload failed", err);
+    return { ok: false, message: uploadErrorMessage(err) };
+  }
+}
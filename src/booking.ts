@@ -0,0 +1,328 @@
+import type { AppointmentStatus, FirestoreAppointment } from "./api/firestoreService";
+import {
+  getLastBookableDate,
+  getTimeSlots,
+  isWithinOpeningHours,
+  salonNow,
+  timeToMinutes,
+  type BusinessHours,
+} from "./businessHours";
+import { checkPromoCode, formatDiscount, normalizePromoCode } from "./promotions";
+import {
+  performsService,
+  type SiteService,
+  type SiteSettings,
+  type TeamMember,
+} from "./siteSettings";
+
+// =====================================================================
+// BOOKING REQUESTS
+// Shared by the public BookingModal and the admin Appointments tab.
+// =====================================================================
+
+export const BOOKING_LIMITS = {
+  name: 60,
+  email: 120,
+  phone: 20,
+  message: 1000,
+} as const;
+
+export interface BookingFormData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  date: string;
+  time: string;
+  service: string;
+  /** Preferred stylist (team member id); empty = no preference. */
+  stylist: string;
+  message: string;
+  /** Optional promo code from a special. */
+  promoCode: string;
+  /** Id of the special being claimed (opened from its card); mentioned in the WhatsApp message. */
+  promotion: string;
+}
+
+export const EMPTY_BOOKING_FORM: BookingFormData = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  date: "",
+  time: "",
+  service: "",
+  stylist: "",
+  message: "",
+  promoCode: "",
+  promotion: "",
+};
+
+export type BookingValidation =
+  | {
+      ok: true;
+      data: Omit<
+        FirestoreAppointment,
+        "id" | "createdAt" | "status" | "reference" | "durationMinutes" | "history" | "spam"
+      >;
+    }
+  | { ok: false; field: keyof BookingFormData; message: string };
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  rescheduled: "Rescheduled",
+  completed: "Completed",
+  "no-show": "No-show",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Status changes offered in the admin UI. Rescheduling is a separate action
+ * because it also moves the slot.
+ */
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "no-show", "cancelled"],
+  rescheduled: ["confirmed", "completed", "no-show", "cancelled"],
+  completed: ["confirmed"],
+  "no-show": ["completed", "confirmed"],
+  cancelled: ["pending"],
+};
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Today's date ("YYYY-MM-DD") in the salon's time zone. */
+export function todayIsoDate(now = new Date()) {
+  return salonNow(now).date;
+}
+
+/**
+ * A non-cancelled booking as exposed by the public availability endpoint
+ * (no client details).
+ */
+export interface BookedSlot {
+  service: string;
+  date: string;
+  time: string;
+  durationMinutes: number;
+  /** Preferred stylist id, when the client picked one. */
+  stylist?: string;
+}
+
+/**
+ * True when another booking of `service` can start at `time` without the
+ * number of overlapping bookings ever reaching the service capacity.
+ * Mirrored in server/bookings.js, which enforces it on submit.
+ */
+export function hasCapacity(
+  booked: BookedSlot[],
+  service: SiteService,
+  date: string,
+  time: string
+) {
+  const start = timeToMinutes(time);
+  const end = start + service.durationMinutes;
+  const overlapping = booked
+    .filter((b) => b.service === service.key && b.date === date)
+    .map((b) => {
+      const s = timeToMinutes(b.time);
+      return { start: s, end: s + b.durationMinutes };
+    })
+    .filter((b) => b.start < end && b.end > start);
+
+  if (overlapping.length < service.capacity) return true;
+
+  // Concurrency only rises at a booking start, so checking those points is enough.
+  const points = [start, ...overlapping.map((b) => b.start).filter((p) => p > start)];
+  return points.every(
+    (p) => overlapping.filter((b) => b.start <= p && b.end > p).length < service.capacity
+  );
+}
+
+/** True when `stylist` has no other booking overlapping the given slot. */
+export function isStylistFree(
+  booked: BookedSlot[],
+  stylist: string,
+  date: string,
+  time: string,
+  durationMinutes: number
+) {
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+  return !booked.some((b) => {
+    if (b.stylist !== stylist || b.date !== date) return false;
+    const s = timeToMinutes(b.time);
+    return s < end && s + b.durationMinutes > start;
+  });
+}
+
+/** Team members who perform `serviceKey` and work on `date`. */
+export function getStylistsForBooking(team: TeamMember[], serviceKey: string, date: string) {
+  const day = date ? new Date(`${date}T00:00:00`).getDay() : NaN;
+  return team.filter(
+    (m) =>
+      performsService(m, serviceKey) && (Number.isNaN(day) || m.workingDays.includes(day))
+  );
+}
+
+/**
+ * Slot start times on `date` that fit the service duration and still have
+ * capacity (and, with a preferred stylist, when that stylist is free).
+ */
+export function getAvailableTimeSlots(
+  hours: BusinessHours,
+  date: string,
+  service: SiteService,
+  booked: BookedSlot[],
+  stylist = "",
+  now = new Date()
+) {
+  return getTimeSlots(hours, date, now, service.durationMinutes).filter(
+    (time) =>
+      hasCapacity(booked, service, date, time) &&
+      (!stylist || isStylistFree(booked, stylist, date, time, service.durationMinutes))
+  );
+}
+
+export interface BookingContext {
+  /** Currently bookable services. */
+  services: SiteService[];
+  hours: BusinessHours;
+  /** Active team members (for the preferred stylist). */
+  team: TeamMember[];
+  /** Existing bookings, when known; the server re-checks capacity on submit. */
+  booked?: BookedSlot[] | null;
+  /** Specials to check a promo code against; usage limits are checked by the server. */
+  promotions?: SiteSettings["promotions"];
+}
+
+/** Validate and normalise the booking form against the appointment schema. */
+export function validateBooking(
+  form: BookingFormData,
+  ctx: BookingContext
+): BookingValidation {
+  const firstName = form.firstName.trim();
+  const lastName = form.lastName.trim();
+  const email = form.email.trim();
+  const phone = form.phone.trim();
+  const message = form.message.trim();
+
+  if (!firstName || firstName.length > BOOKING_LIMITS.name) {
+    return { ok: false, field: "firstName", message: "Please enter your first name." };
+  }
+  if (!lastName || lastName.length > BOOKING_LIMITS.name) {
+    return { ok: false, field: "lastName", message: "Please enter your last name." };
+  }
+  if (!EMAIL_RE.test(email) || email.length > BOOKING_LIMITS.email) {
+    return { ok: false, field: "email", message: "Please enter a valid email address." };
+  }
+  const phoneDigits = phone.replace(/\D/g, "");
+  if (phoneDigits.length < 9 || phoneDigits.length > 15 || phone.length > BOOKING_LIMITS.phone) {
+    return { ok: false, field: "phone", message: "Please enter a valid phone number." };
+  }
+  if (!DATE_RE.test(form.date) || Number.isNaN(new Date(`${form.date}T00:00:00`).getTime())) {
+    return { ok: false, field: "date", message: "Please choose a date." };
+  }
+  if (form.date < todayIsoDate()) {
+    return { ok: false, field: "date", message: "Please choose a date from today onwards." };
+  }
+  if (form.date > getLastBookableDate(ctx.hours)) {
+    return {
+      ok: false,
+      field: "date",
+      message: "That date is too far ahead. Please choose an earlier date.",
+    };
+  }
+  const service = ctx.services.find((x) => x.key === form.service);
+  if (!service) {
+    return { ok: false, field: "service", message: "Please select a service." };
+  }
+  const stylist = form.stylist
+    ? getStylistsForBooking(ctx.team, service.key, form.date).find((m) => m.id === form.stylist)
+    : undefined;
+  if (form.stylist && !stylist) {
+    return {
+      ok: false,
+      field: "stylist",
+      message: "That stylist isn't available for this service on that day.",
+    };
+  }
+  if (!TIME_RE.test(form.time)) {
+    return { ok: false, field: "time", message: "Please choose a time." };
+  }
+  const now = salonNow();
+  if (form.date === now.date && timeToMinutes(form.time) <= now.minutes) {
+    return {
+      ok: false,
+      field: "time",
+      message: "That time has already passed. Please choose another slot.",
+    };
+  }
+  if (!isWithinOpeningHours(ctx.hours, form.date, form.time, service.durationMinutes)) {
+    return {
+      ok: false,
+      field: "time",
+      message: "That time is outside our opening hours. Please choose another slot.",
+    };
+  }
+  if (ctx.booked && !hasCapacity(ctx.booked, service, form.date, form.time)) {
+    return {
+      ok: false,
+      field: "time",
+      message: "That slot is fully booked. Please choose another time.",
+    };
+  }
+  if (
+    stylist &&
+    ctx.booked &&
+    !isStylistFree(ctx.booked, stylist.id, form.date, form.time, service.durationMinutes)
+  ) {
+    return {
+      ok: false,
+      field: "time",
+      message: `${stylist.name} is already booked then. Please choose another time.`,
+    };
+  }
+  if (message.length > BOOKING_LIMITS.message) {
+    return {
+      ok: false,
+      field: "message",
+      message: `Please keep your message under ${BOOKING_LIMITS.message} characters.`,
+    };
+  }
+  const promoCode = normalizePromoCode(form.promoCode);
+  const promo = promoCode && ctx.promotions
+    ? checkPromoCode(ctx.promotions, ctx.services, promoCode, service.key)
+    : null;
+  if (promo && !promo.ok) {
+    return { ok: false, field: "promoCode", message: promo.message };
+  }
+
+  return {
+    ok: true,
+    data: {
+      firstName,
+      lastName,
+      email,
+      phone,
+      date: form.date,
+      time: form.time,
+      service: form.service,
+      ...(stylist ? { stylist: stylist.id, stylistName: stylist.name } : {}),
+      message,
+      ...(promo?.ok
+        ? {
+            promo: {
+              id: promo.promotion.id,
+              code: promo.promotion.code,
+              title: promo.promotion.title,
+              discount: formatDiscount(promo.promotion.discount),
+            },
+          }
+        : {}),
+    },
+  };
+}
@@ -0,0 +1,265 @@
+import type { SiteSettings } from "./siteSettings";
+import { formatTime24To12 } from "./utils/format";
+
+// =====================================================================
+// BUSINESS HOURS
+// Weekly schedule + closed dates, shared by Contact, BookingModal and admin.
+// "Today" and "already passed" are read on the salon's clock (as the API
+// server does), not the visitor's.
+// =====================================================================
+
+export const SALON_TIME_ZONE = "Africa/Johannesburg";
+
+export type BusinessHours = SiteSettings["hours"];
+export type DayHours = BusinessHours["weekly"][number];
+
+/** Indexed like Date#getDay(): 0 = Sunday … 6 = Saturday. */
+export const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+export const WEEKDAY_LONG = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/** Monday-first display order (salon convention). */
+export const WEEK_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export function timeToMinutes(time: string) {
+  const [h, m] = time.split(":").map((v) => parseInt(v, 10));
+  if (Number.isNaN(h) || Number.isNaN(m)) return NaN;
+  return h * 60 + m;
+}
+
+export function minutesToTime(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/** Today's date ("YYYY-MM-DD"), weekday and minute of the day in the salon's time zone. */
+export function salonNow(now = new Date()) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: SALON_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    day: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function isoDate(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+/** "YYYY-MM-DD" `days` after `date` (calendar arithmetic, no time zone). */
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function parseIsoDate(date: string) {
+  const d = new Date(`${date}T00:00:00`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function isValidDay(day: DayHours | undefined): day is DayHours {
+  if (!day || !day.open) return false;
+  const start = timeToMinutes(day.start);
+  const end = timeToMinutes(day.end);
+  return Number.isFinite(start) && Number.isFinite(end) && end > start;
+}
+
+export function getClosedDate(hours: BusinessHours, date: string) {
+  return hours.closedDates.find((x) => x.date === date) ?? null;
+}
+
+/** Opening window for a calendar date, or null when the salon is closed. */
+export function getOpeningForDate(hours: BusinessHours, date: string) {
+  const d = parseIsoDate(date);
+  if (!d) return null;
+  if (getClosedDate(hours, date)) return null;
+  const day = hours.weekly[d.getDay()];
+  return isValidDay(day) ? { start: day.start, end: day.end } : null;
+}
+
+/** All slot start times on a date that start after minute `earliest`. */
+function slotsOnDate(hours: BusinessHours, date: string, durationMinutes: number, earliest: number) {
+  const opening = getOpeningForDate(hours, date);
+  if (!opening) return [] as string[];
+
+  const step = Math.max(5, Math.floor(hours.slotMinutes || 30));
+  const start = timeToMinutes(opening.start);
+  const end = timeToMinutes(opening.end);
+
+  const slots: string[] = [];
+  for (let t = start; t < end && t + durationMinutes <= end; t += step) {
+    if (t > earliest) slots.push(minutesToTime(t));
+  }
+  return slots;
+}
+
+/**
+ * Slot start times ("HH:MM") on a date. A slot is offered when it starts
+ * inside opening hours and, given a duration, finishes by closing time; on
+ * the salon's today, slots already past are dropped.
+ */
+export function getTimeSlots(
+  hours: BusinessHours,
+  date: string,
+  now = new Date(),
+  durationMinutes = 0
+) {
+  const today = salonNow(now);
+  if (date < today.date) return [] as string[];
+  return slotsOnDate(hours, date, durationMinutes, date === today.date ? today.minutes : -1);
+}
+
+function bookingWindowDays(hours: BusinessHours) {
+  return Math.max(1, hours.bookingWindowDays || 60);
+}
+
+/** Last date that can be booked: the booking window counts the salon's today as day one. */
+export function getLastBookableDate(hours: BusinessHours, now = new Date()) {
+  return addDays(salonNow(now).date, bookingWindowDays(hours) - 1);
+}
+
+/** Open dates from the salon's today (inclusive) that still have at least one slot. */
+export function getBookableDates(
+  hours: BusinessHours,
+  days = bookingWindowDays(hours),
+  now = new Date()
+) {
+  const today = salonNow(now).date;
+  const out: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, i);
+    if (getTimeSlots(hours, date, now).length > 0) out.push(date);
+  }
+  return out;
+}
+
+/** True when `time` is an offered slot on `date` (ignores the current time of day). */
+export function isWithinOpeningHours(
+  hours: BusinessHours,
+  date: string,
+  time: string,
+  durationMinutes = 0
+) {
+  return slotsOnDate(hours, date, durationMinutes, -1).includes(time);
+}
+
+/**
+ * Human-readable weekly hours, grouping consecutive days that share the
+ * same times, e.g. ["Mon - Fri: 7:00 AM - 7:00 PM", "Sat - Sun: Closed"].
+ */
+export function formatWeeklyHours(hours: BusinessHours): string[] {
+  const label = (day: DayHours | undefined) =>
+    isValidDay(day)
+      ? `${formatTime24To12(day.start)} - ${formatTime24To12(day.end)}`
+      : "Closed";
+
+  const groups: Array<{ from: number; to: number; text: string }> = [];
+  for (const dayIndex of WEEK_DISPLAY_ORDER) {
+    const text = label(hours.weekly[dayIndex]);
+    const last = groups[groups.length - 1];
+    if (last && last.text === text) last.to = dayIndex;
+    else groups.push({ from: dayIndex, to: dayIndex, text });
+  }
+
+  return groups.map((g) =>
+    g.from === g.to
+      ? `${WEEKDAY_SHORT[g.from]}: ${g.text}`
+      : `${WEEKDAY_SHORT[g.from]} - ${WEEKDAY_SHORT[g.to]}: ${g.text}`
+  );
+}
+
+/** Upcoming closed dates (today onwards), sorted. */
+export function getUpcomingClosedDates(hours: BusinessHours, now = new Date()) {
+  const today = salonNow(now).date;
+  return hours.closedDates
+    .filter((x) => x.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function easterSunday(year: number) {
+  // Anonymous Gregorian algorithm
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * South African public holidays for a year. Holidays falling on a Sunday
+ * are observed on the Monday (Public Holidays Act).
+ */
+export function southAfricanPublicHolidays(year: number) {
+  const fixed: Array<[string, string]> = [
+    ["01-01", "New Year's Day"],
+    ["03-21", "Human Rights Day"],
+    ["04-27", "Freedom Day"],
+    ["05-01", "Workers' Day"],
+    ["06-16", "Youth Day"],
+    ["08-09", "National Women's Day"],
+    ["09-24", "Heritage Day"],
+    ["12-16", "Day of Reconciliation"],
+    ["12-25", "Christmas Day"],
+    ["12-26", "Day of Goodwill"],
+  ];
+
+  const list: Array<{ date: string; label: string }> = [];
+  const add = (d: Date, label: string) => {
+    const date = isoDate(d);
+    if (!list.some((x) => x.date === date)) list.push({ date, label });
+  };
+
+  const easter = easterSunday(year);
+  const goodFriday = new Date(easter);
+  goodFriday.setDate(easter.getDate() - 2);
+  const familyDay = new Date(easter);
+  familyDay.setDate(easter.getDate() + 1);
+
+  for (const [md, label] of fixed) add(new Date(`${year}-${md}T00:00:00`), label);
+  add(goodFriday, "Good Friday");
+  add(familyDay, "Family Day");
+
+  for (const [md, label] of fixed) {
+    const d = new Date(`${year}-${md}T00:00:00`);
+    if (d.getDay() !== 0) continue;
+    const observed = new Date(d);
+    observed.setDate(d.getDate() + 1);
+    add(observed, `${label} (observed)`);
+  }
+
+  return list.sort((a, b) => a.date.localeCompare(b.date));
+}
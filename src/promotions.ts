@@ -0,0 +1,164 @@
+import type { Promotion, SiteService, SiteSettings } from "./siteSettings";
+import {
+  WEEKDAY_LONG,
+  WEEK_DISPLAY_ORDER,
+  addDays,
+  minutesToTime,
+  salonNow,
+  timeToMinutes,
+} from "./businessHours";
+import { formatTime24To12 } from "./utils/format";
+
+// =====================================================================
+// PROMOTIONS
+// Scheduling for specials: a date range, optional weekdays and an optional
+// daily time window, all read on the salon's clock (not the visitor's).
+// Promo codes are checked here for the booking form and again (with usage
+// limits) by server/promotions.js.
+// =====================================================================
+
+export type PromotionStatus = "scheduled" | "live" | "expired";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A stored promotion date as "YYYY-MM-DD". Older saves hold an ISO timestamp
+ * (midnight in the admin's browser), which is read as that instant's salon date.
+ */
+export function normalizePromotionDate(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return "";
+  if (DATE_RE.test(value)) return value;
+  const t = new Date(value);
+  return Number.isNaN(t.getTime()) ? "" : salonNow(t).date;
+}
+
+/** Daily window in minutes, or null when the promotion runs all day. */
+function dailyWindow(p: Promotion) {
+  const start = timeToMinutes(p.startTime || "");
+  const end = timeToMinutes(p.endTime || "");
+  if (!Number.isFinite(start) && !Number.isFinite(end)) return null;
+  const from = Number.isFinite(start) ? start : 0;
+  const to = Number.isFinite(end) ? end : 24 * 60;
+  return to > from ? { start: from, end: to } : null;
+}
+
+/** True when the promotion runs at some point on `date` (ignoring the time window). */
+function runsOnDate(p: Promotion, date: string) {
+  if (p.validFrom && date < p.validFrom) return false;
+  if (p.validUntil && date > p.validUntil) return false;
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return p.days.length === 0 || p.days.includes(day);
+}
+
+/**
+ * Live while it is inside its dates, weekdays and time window; scheduled while
+ * another run is still to come; expired once none is left.
+ */
+export function getPromotionStatus(p: Promotion, now = new Date()): PromotionStatus {
+  const { date, minutes } = salonNow(now);
+  const window = dailyWindow(p);
+
+  if (runsOnDate(p, date)) {
+    if (!window || (minutes >= window.start && minutes < window.end)) return "live";
+    if (minutes < window.start) return "scheduled";
+  }
+  if (p.validUntil && date >= p.validUntil) return "expired";
+  // A weekly pattern repeats, so the next run (if any) is within a week.
+  for (let i = 1; i <= 7; i++) {
+    if (runsOnDate(p, addDays(date, i))) return "scheduled";
+  }
+  return p.validFrom && date < p.validFrom ? "scheduled" : "expired";
+}
+
+/** Promotions to show on the site right now, in admin order. */
+export function getLivePromotions(settings: SiteSettings, now = new Date()) {
+  if (!settings.promotions.enabled) return [] as Promotion[];
+  return settings.promotions.items.filter(
+    (p) => p.title.trim() && getPromotionStatus(p, now) === "live"
+  );
+}
+
+/** e.g. "Tuesdays · 9:00 AM – 1:00 PM"; "" for an every-day, all-day promotion. */
+export function describePromotionSchedule(p: Promotion) {
+  const parts: string[] = [];
+  if (p.days.length > 0 && p.days.length < 7) {
+    parts.push(
+      WEEK_DISPLAY_ORDER.filter((d) => p.days.includes(d))
+        .map((d) => `${WEEKDAY_LONG[d]}s`)
+        .join(", ")
+    );
+  }
+  const window = dailyWindow(p);
+  if (window) {
+    const end = window.end === 24 * 60 ? "midnight" : formatTime24To12(minutesToTime(window.end));
+    parts.push(`${formatTime24To12(minutesToTime(window.start))} – ${end}`);
+  }
+  return parts.join(" · ");
+}
+
+/** "braids 20" → "BRAIDS20" */
+export function normalizePromoCode(value: unknown) {
+  return typeof value === "string"
+    ? value.toUpperCase().replace(/[^A-Z0-9-]/g, "").slice(0, 20)
+    : "";
+}
+
+/** e.g. "20% off" or "R50 off"; "" when the code carries no discount. */
+export function formatDiscount(discount: Promotion["discount"]) {
+  if (!(discount.amount > 0)) return "";
+  return discount.type === "fixed" ? `R${discount.amount} off` : `${discount.amount}% off`;
+}
+
+function isCodeExpired(p: Promotion, now: Date) {
+  return Boolean(p.codeExpires) && salonNow(now).date > p.codeExpires;
+}
+
+export type PromoCodeCheck =
+  | { ok: true; promotion: Promotion }
+  | { ok: false; message: string };
+
+/**
+ * Match a code typed into the booking form against the live promotions. An
+ * empty `serviceKey` skips the service check (no service picked yet).
+ */
+export function checkPromoCode(
+  promotions: SiteSettings["promotions"],
+  services: SiteService[],
+  code: string,
+  serviceKey: string,
+  now = new Date()
+): PromoCodeCheck {
+  const wanted = normalizePromoCode(code);
+  const matches = promotions.enabled
+    ? promotions.items.filter((p) => p.code && p.code === wanted)
+    : [];
+  // Codes should be unique, but an expired special may still share one with a live one.
+  const promotion =
+    matches.find(
+      (p) =>
+        p.title.trim() &&
+        getPromotionStatus(p, now) === "live" &&
+        !isCodeExpired(p, now)
+    ) ?? matches[0];
+  if (!wanted || !promotion) {
+    return { ok: false, message: "We don't recognise that promo code." };
+  }
+  if (isCodeExpired(promotion, now)) {
+    return { ok: false, message: "That promo code has expired." };
+  }
+  if (!promotion.title.trim() || getPromotionStatus(promotion, now) !== "live") {
+    return { ok: false, message: "That promo code isn't valid right now." };
+  }
+  if (serviceKey && promotion.services.length > 0 && !promotion.services.includes(serviceKey)) {
+    const titles = services
+      .filter((s) => promotion.services.includes(s.key))
+      .map((s) => s.title);
+    return {
+      ok: false,
+      message: titles.length
+        ? `That promo code is only for ${titles.join(" or ")}.`
+        : "That promo code doesn't apply to this service.",
+    };
+  }
+  return { ok: true, promotion };
+}
@@ -0,0 +1,66 @@
+// =====================================================================
+// SETTINGS DIFF
+// Field-level comparison of two settings versions for the admin history.
+// List items with an `id` or `key` are matched by it, so editing or moving
+// one service shows up against that service rather than every later index.
+// =====================================================================
+
+export interface SettingsChange {
+  /** e.g. "services.items[braids].price" */
+  path: string;
+  /** undefined when the field was added. */
+  before: unknown;
+  /** undefined when the field was removed. */
+  after: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function itemId(value: unknown) {
+  if (!isRecord(value)) return "";
+  if (typeof value.id === "string" && value.id) return value.id;
+  return typeof value.key === "string" ? value.key : "";
+}
+
+function childPath(path: string, key: string) {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/** Leaf values by path. An identified list records its order under its own path. */
+function flatten(value: unknown, path: string, out: Map<string, unknown>) {
+  if (Array.isArray(value) && value.length > 0 && value.every((v) => itemId(v))) {
+    out.set(path, value.map(itemId));
+    value.forEach((v) => flatten(v, `${path}[${itemId(v)}]`, out));
+    return;
+  }
+  if (isRecord(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) flatten(child, childPath(path, key), out);
+    return;
+  }
+  out.set(path, value);
+}
+
+export function diffSettings(before: unknown, after: unknown): SettingsChange[] {
+  const a = new Map<string, unknown>();
+  const b = new Map<string, unknown>();
+  flatten(before, "", a);
+  flatten(after, "", b);
+
+  const changes: SettingsChange[] = [];
+  for (const path of new Set([...b.keys(), ...a.keys()])) {
+    if (JSON.stringify(a.get(path)) !== JSON.stringify(b.get(path))) {
+      changes.push({ path, before: a.get(path), after: b.get(path) });
+    }
+  }
+  return changes;
+}
+
+/** How a diff value reads in the admin table. */
+export function formatDiffValue(value: unknown) {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value ? value : '""';
+  return JSON.stringify(value);
+}
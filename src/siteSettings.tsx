@@ -8,12 +8,34 @@ import {
 } from "react";
 import {
   fetchSiteSettings,
-  saveSiteSettingsToFirestore,
+  publishSiteSettingsDraft,
+  restoreSettingsRevision,
+  saveSiteSettingsDraft,
+  subscribeSettingsRevisions,
   subscribeSiteSettings,
+  subscribeSiteSettingsDraft,
+  type SettingsRevision,
 } from "./api/firestoreService";
+import { currentAdminEmail } from "./api/adminAuth";
+import galleryManifest from "virtual:gallery-manifest";
+import { normalizePromoCode, normalizePromotionDate } from "./promotions";
+// Also read by server/bookings.js, so both sides agree on durations and chairs.
+import DEFAULT_SERVICE_ITEMS from "./serviceCatalog.json";
 
 export type GalleryMode = "numbered" | "custom";
 
+/** Icon keys available for service cards (rendered as inline SVGs on the site). */
+export type ServiceIcon =
+  | "wig"
+  | "braids"
+  | "sparkle"
+  | "grid"
+  | "bolt"
+  | "nails"
+  | "fabric"
+  | "heart"
+  | "brush";
+
 export interface SiteSettings {
   contact: {
     addressLines: string[];
@@ -22,8 +44,19 @@ export interface SiteSettings {
     phoneTel: string;
     whatsappDigits: string;
     email: string;
+    /** Legacy free-text hours. The site now renders hours from `hours` below. */
     hours: string;
   };
+  hours: {
+    /** Indexed like Date#getDay(): 0 = Sunday … 6 = Saturday. Times are "HH:MM" (24h). */
+    weekly: Array<{ open: boolean; start: string; end: string }>;
+    /** Public holidays and other one-off closures ("YYYY-MM-DD"). */
+    closedDates: Array<{ date: string; label: string }>;
+    /** Minutes between bookable start times. */
+    slotMinutes: number;
+    /** How many days ahead clients can book. */
+    bookingWindowDays: number;
+  };
   socials: {
     instagramUrl: string;
     facebookUrl: string;
@@ -34,6 +67,50 @@ export interface SiteSettings {
     heroVideoFit: "cover" | "contain";
     heroVideoPosition: string;
   };
+  services: {
+    items: Array<{
+      /** Stable identifier stored on appointments (e.g. "braids"). */
+      key: string;
+      title: string;
+      category: string;
+      description: string;
+      /** Free-text price label, e.g. "Starts from R250". Empty = "Enquire". */
+      price: string;
+      highlights: string[];
+      icon: ServiceIcon;
+      /** Chair time blocked by one booking, in minutes. */
+      durationMinutes: number;
+      /** Bookings of this service that can run at the same time (stylists/chairs). */
+      capacity: number;
+      featured: boolean;
+      /** Retired services are hidden publicly but kept for existing bookings/reviews. */
+      active: boolean;
+      /** Detail page (/services/:key) copy. Empty = falls back to `description`. */
+      longDescription: string;
+      /** Prices by length/variant, e.g. { label: "Mid-back", price: "R650" }. */
+      priceTable: Array<{ label: string; price: string }>;
+      aftercare: string[];
+    }>;
+  };
+  team: {
+    /** Show the "Meet the team" section (only when there are active members). */
+    enabled: boolean;
+    members: Array<{
+      /** Stable identifier stored on appointments as the preferred stylist. */
+      id: string;
+      name: string;
+      /** Job title shown under the name, e.g. "Senior Braider". */
+      title: string;
+      photoUrl: string;
+      bio: string;
+      /** Service keys this person performs. Empty = all services. */
+      services: string[];
+      /** Days they work, indexed like Date#getDay(). */
+      workingDays: number[];
+      /** Inactive members are hidden publicly but kept for existing bookings. */
+      active: boolean;
+    }>;
+  };
   promotions: {
     enabled: boolean;
     items: Array<{
@@ -43,8 +120,25 @@ export interface SiteSettings {
       badge: string; // e.g. "Special" / "New" / "Limited"
       ctaText: string; // e.g. "Book on WhatsApp"
       imageUrl: string;
-      /** ISO date string; if set and expired, it won’t display publicly */
+      /** First day it shows ("YYYY-MM-DD", salon time). Empty = straight away. */
+      validFrom: string;
+      /** Last day it shows ("YYYY-MM-DD", salon time, inclusive). Empty = no end. */
       validUntil: string;
+      /** Weekdays it runs, indexed like Date#getDay(). Empty = every day. */
+      days: number[];
+      /** Daily window ("HH:MM", salon time). Both empty = all day. */
+      startTime: string;
+      endTime: string;
+      /** Service keys the special applies to. Empty = all services. */
+      services: string[];
+      /** Code clients enter when booking (upper-case), e.g. "BRAIDS20". Empty = no code. */
+      code: string;
+      /** What the code takes off; `amount` is a percentage or whole rand. */
+      discount: { type: "percent" | "fixed"; amount: number };
+      /** Bookings that may use the code (cancelled ones don't count). 0 = unlimited. */
+      usageLimit: number;
+      /** Last day the code is accepted ("YYYY-MM-DD", salon time). Empty = while live. */
+      codeExpires: string;
     }>;
   };
   gallery: {
@@ -55,6 +149,8 @@ export interface SiteSettings {
     pageSize: number;
     /** How gallery tiles fit inside their frames */
     tileFit: "cover" | "contain";
+    /** Play gallery clips muted while they're on screen (never with reduced motion). */
+    videoAutoplay: boolean;
 
     /** Featured nails designs (images) shown in the “Our Work” section */
     featuredNails: {
@@ -80,9 +176,42 @@ export interface SiteSettings {
       order: number[];
     };
     customImages: string[];
+    /**
+     * Per-image details keyed by galleryImageKey(src). Images without an
+     * entry are untagged.
+     */
+    imageMeta: Record<string, GalleryImageMeta>;
   };
 }
 
+export interface GalleryImageMeta {
+  /** Service keys this image shows (gallery filter chips and service detail pages). */
+  services: string[];
+  /** Shown under the image in the lightbox. */
+  caption: string;
+  /** Screen-reader text; falls back to the caption or a generic description. */
+  alt: string;
+  /** Resized variants for images uploaded through the admin panel. */
+  responsive?: ResponsiveImage;
+  /** Still frame shown for a video before it plays (captured on upload or set by hand). */
+  poster?: string;
+}
+
+export interface ResponsiveImage {
+  /** Size of the largest variant (for the aspect ratio). */
+  width: number;
+  height: number;
+  /** Tiny blurred preview as a data URL. */
+  placeholder: string;
+  variants: Array<{ width: number; format: "avif" | "webp" | "jpeg"; url: string }>;
+}
+
+export const EMPTY_GALLERY_IMAGE_META: GalleryImageMeta = { services: [], caption: "", alt: "" };
+
+export type SiteService = SiteSettings["services"]["items"][number];
+export type Promotion = SiteSettings["promotions"]["items"][number];
+export type TeamMember = SiteSettings["team"]["members"][number];
+
 function deepClone<T>(value: T): T {
   return JSON.parse(JSON.stringify(value)) as T;
 }
@@ -102,6 +231,17 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
     email: "info@berlybeauty.co.za",
     hours: "Mon - Sun: 7:00 AM - 7:00 PM",
   },
+  hours: {
+    // Mon - Sun: 7:00 AM - 7:00 PM
+    weekly: Array.from({ length: 7 }, () => ({
+      open: true,
+      start: "07:00",
+      end: "19:00",
+    })),
+    closedDates: [],
+    slotMinutes: 30,
+    bookingWindowDays: 60,
+  },
   socials: {
     instagramUrl:
       "https://www.instagram.com/salonberlybeauty10?igsh=MW42ZmFjY295NTk1eQ==",
@@ -113,6 +253,13 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
     heroVideoFit: "cover",
     heroVideoPosition: "50% 15%",
   },
+  services: {
+    items: DEFAULT_SERVICE_ITEMS as SiteService[],
+  },
+  team: {
+    enabled: true,
+    members: [],
+  },
   promotions: {
     enabled: true,
     items: [],
@@ -125,6 +272,7 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
     pageSize: 12,
     // Default tile behavior: fill the frame (more editorial)
     tileFit: "cover",
+    videoAutoplay: true,
 
     featuredNails: {
       enabled: true,
@@ -156,9 +304,110 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
       order: [],
     },
     customImages: [],
+    imageMeta: {},
   },
 };
 
+/** Blank service used when adding a new one and to fill gaps in older saved data. */
+export const EMPTY_SERVICE: SiteService = {
+  key: "",
+  title: "",
+  category: "",
+  description: "",
+  price: "",
+  highlights: [],
+  icon: "sparkle",
+  durationMinutes: 60,
+  capacity: 1,
+  featured: false,
+  active: true,
+  longDescription: "",
+  priceTable: [],
+  aftercare: [],
+};
+
+function mergeServiceItems(items: unknown): SiteService[] {
+  if (!Array.isArray(items)) return deepClone(DEFAULT_SITE_SETTINGS.services.items);
+  const defaults = new Map(DEFAULT_SITE_SETTINGS.services.items.map((x) => [x.key, x]));
+  return (items as Partial<SiteService>[])
+    .filter((x) => x && typeof x.key === "string" && x.key)
+    .map((x) => ({
+      ...EMPTY_SERVICE,
+      // Older saved catalogs predate durations; borrow them from the built-in service.
+      durationMinutes: defaults.get(x.key!)?.durationMinutes ?? EMPTY_SERVICE.durationMinutes,
+      capacity: defaults.get(x.key!)?.capacity ?? EMPTY_SERVICE.capacity,
+      ...x,
+      highlights: Array.isArray(x.highlights) ? x.highlights : [],
+      priceTable: Array.isArray(x.priceTable) ? x.priceTable : [],
+      aftercare: Array.isArray(x.aftercare) ? x.aftercare : [],
+    })) as SiteService[];
+}
+
+/** Blank team member used when adding one and to fill gaps in older saved data. */
+export const EMPTY_TEAM_MEMBER: TeamMember = {
+  id: "",
+  name: "",
+  title: "",
+  photoUrl: "",
+  bio: "",
+  services: [],
+  workingDays: [1, 2, 3, 4, 5, 6],
+  active: true,
+};
+
+export const EMPTY_PROMOTION: Promotion = {
+  id: "",
+  title: "",
+  description: "",
+  badge: "",
+  ctaText: "",
+  imageUrl: "",
+  validFrom: "",
+  validUntil: "",
+  days: [],
+  startTime: "",
+  endTime: "",
+  services: [],
+  code: "",
+  discount: { type: "percent", amount: 0 },
+  usageLimit: 0,
+  codeExpires: "",
+};
+
+function mergePromotionItems(items: unknown): Promotion[] {
+  if (!Array.isArray(items)) return deepClone(DEFAULT_SITE_SETTINGS.promotions.items);
+  return (items as Partial<Promotion>[])
+    .filter((x) => x && typeof x.id === "string" && x.id)
+    .map((x) => ({
+      ...EMPTY_PROMOTION,
+      ...x,
+      // Older saves stored validUntil as an ISO timestamp.
+      validFrom: normalizePromotionDate(x.validFrom),
+      validUntil: normalizePromotionDate(x.validUntil),
+      days: Array.isArray(x.days) ? x.days : [],
+      services: Array.isArray(x.services) ? x.services : [],
+      code: normalizePromoCode(x.code),
+      discount: {
+        type: x.discount?.type === "fixed" ? "fixed" : "percent",
+        amount: Math.max(0, Number(x.discount?.amount) || 0),
+      },
+      usageLimit: Math.max(0, Math.floor(Number(x.usageLimit) || 0)),
+      codeExpires: normalizePromotionDate(x.codeExpires),
+    })) as Promotion[];
+}
+
+function mergeTeamMembers(members: unknown): TeamMember[] {
+  if (!Array.isArray(members)) return deepClone(DEFAULT_SITE_SETTINGS.team.members);
+  return (members as Partial<TeamMember>[])
+    .filter((x) => x && typeof x.id === "string" && x.id)
+    .map((x) => ({
+      ...EMPTY_TEAM_MEMBER,
+      ...x,
+      services: Array.isArray(x.services) ? x.services : [],
+      workingDays: Array.isArray(x.workingDays) ? x.workingDays : EMPTY_TEAM_MEMBER.workingDays,
+    })) as TeamMember[];
+}
+
 function mergeSettings(partial: Partial<SiteSettings> | null): SiteSettings {
   if (!partial) return deepClone(DEFAULT_SITE_SETTINGS);
 
@@ -168,6 +417,17 @@ function mergeSettings(partial: Partial<SiteSettings> | null): SiteSettings {
       ...DEFAULT_SITE_SETTINGS.contact,
       ...(s.contact ?? {}),
     },
+    hours: {
+      ...DEFAULT_SITE_SETTINGS.hours,
+      ...(s.hours ?? {}),
+      weekly:
+        Array.isArray(s.hours?.weekly) && s.hours!.weekly.length === 7
+          ? s.hours!.weekly
+          : deepClone(DEFAULT_SITE_SETTINGS.hours.weekly),
+      closedDates: Array.isArray(s.hours?.closedDates)
+        ? s.hours!.closedDates
+        : DEFAULT_SITE_SETTINGS.hours.closedDates,
+    },
     socials: {
       ...DEFAULT_SITE_SETTINGS.socials,
       ...(s.socials ?? {}),
@@ -176,12 +436,20 @@ function mergeSettings(partial: Partial<SiteSettings> | null): SiteSettings {
       ...DEFAULT_SITE_SETTINGS.media,
       ...(s.media ?? {}),
     },
+    services: {
+      ...DEFAULT_SITE_SETTINGS.services,
+      ...(s.services ?? {}),
+      items: mergeServiceItems(s.services?.items),
+    },
+    team: {
+      ...DEFAULT_SITE_SETTINGS.team,
+      ...(s.team ?? {}),
+      members: mergeTeamMembers(s.team?.members),
+    },
     promotions: {
       ...DEFAULT_SITE_SETTINGS.promotions,
       ...(s.promotions ?? {}),
-      items: Array.isArray(s.promotions?.items)
-        ? s.promotions!.items
-        : DEFAULT_SITE_SETTINGS.promotions.items,
+      items: mergePromotionItems(s.promotions?.items),
     },
     gallery: {
       ...DEFAULT_SITE_SETTINGS.gallery,
@@ -216,6 +484,7 @@ function mergeSettings(partial: Partial<SiteSettings> | null): SiteSettings {
       customImages: Array.isArray(s.gallery?.customImages)
         ? s.gallery!.customImages
         : DEFAULT_SITE_SETTINGS.gallery.customImages,
+      imageMeta: mergeImageMeta(s.gallery?.imageMeta),
     },
   };
 }
@@ -238,6 +507,113 @@ function saveToLocalStorage(settings: SiteSettings) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
 }
 
+/** Services that are bookable / shown publicly, in admin-defined order. */
+export function getActiveServices(settings: SiteSettings): SiteService[] {
+  return settings.services.items.filter((x) => x.active && x.title.trim());
+}
+
+/** Team members shown publicly, in admin-defined order. */
+export function getActiveTeam(settings: SiteSettings): TeamMember[] {
+  return settings.team.members.filter((x) => x.active && x.name.trim());
+}
+
+/** Whether a team member performs `serviceKey` (an empty list means everything). */
+export function performsService(member: TeamMember, serviceKey: string) {
+  return member.services.length === 0 || member.services.includes(serviceKey);
+}
+
+/**
+ * Resolve a stored service key (appointments) to its display title.
+ * Falls back to the raw value so retired/unknown keys still read sensibly.
+ */
+export function getServiceLabel(settings: SiteSettings, key: string): string {
+  const match = settings.services.items.find((x) => x.key === key);
+  return match?.title || key;
+}
+
+function mergeImageMeta(input: unknown): Record<string, GalleryImageMeta> {
+  if (!input || typeof input !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(input as Record<string, Partial<GalleryImageMeta>>).map(([src, meta]) => [
+      src,
+      {
+        ...EMPTY_GALLERY_IMAGE_META,
+        ...meta,
+        services: Array.isArray(meta?.services) ? meta.services : [],
+        responsive: Array.isArray(meta?.responsive?.variants) ? meta.responsive : undefined,
+        poster: typeof meta?.poster === "string" && meta.poster ? meta.poster : undefined,
+      },
+    ])
+  );
+}
+
+/** Stable id for a gallery image: its path without the cache-busting query. */
+export function galleryImageKey(src: string) {
+  return src.split("?")[0];
+}
+
+/**
+ * True for MP4/WebM media. Storage download URLs encode the object path
+ * ("…/o/uploads%2Fgallery%2Fclip.mp4?alt=media"), so the path is decoded first.
+ */
+export function isVideoUrl(src: string) {
+  let path = galleryImageKey(src);
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the raw path.
+  }
+  return /\.(mp4|webm)$/i.test(path);
+}
+
+/** `srcset` for one format of a responsive image ("" when it has none). */
+export function buildSrcSet(image: ResponsiveImage, format: ResponsiveImage["variants"][number]["format"]) {
+  return image.variants
+    .filter((v) => v.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((v) => `${v.url} ${v.width}w`)
+    .join(", ");
+}
+
+export function getGalleryImageMeta(settings: SiteSettings, src: string): GalleryImageMeta {
+  return settings.gallery.imageMeta[galleryImageKey(src)] ?? EMPTY_GALLERY_IMAGE_META;
+}
+
+/** Active services with at least one tagged gallery image, in catalog order (the filter chips). */
+export function getGalleryCategories(settings: SiteSettings): SiteService[] {
+  const tagged = new Set(
+    buildGalleryImageList(settings).flatMap((src) => getGalleryImageMeta(settings, src).services)
+  );
+  return getActiveServices(settings).filter((s) => tagged.has(s.key));
+}
+
+/** Gallery images tagged with `serviceKey`, in gallery order. */
+export function getServiceGalleryImages(settings: SiteSettings, serviceKey: string): string[] {
+  return buildGalleryImageList(settings).filter((src) =>
+    getGalleryImageMeta(settings, src).services.includes(serviceKey)
+  );
+}
+
+// Files found in public/gallery/ at build time (plugins/galleryManifest.ts).
+const MANIFEST_FILES = new Map(galleryManifest.files.map((f) => [f.path, f]));
+
+/** Build-time details (size, dimensions, hash) of a public/gallery file, or null. */
+export function getGalleryManifestEntry(src: string) {
+  return MANIFEST_FILES.get(galleryImageKey(src)) ?? null;
+}
+
+export const GALLERY_MANIFEST_FOLDER = galleryManifest.folder;
+export const GALLERY_MANIFEST_COUNT = galleryManifest.files.length;
+
+/**
+ * Cache-busted URL for an internal asset: files in the manifest are versioned
+ * by content hash, anything else by the admin's `assetVersion` bump.
+ */
+export function versionedAssetUrl(path: string, assetVersion: number) {
+  const entry = MANIFEST_FILES.get(path);
+  return `${path}?v=${entry ? entry.hash : assetVersion}`;
+}
+
 export function buildGalleryImageList(settings: SiteSettings): string[] {
   if (settings.gallery.mode === "custom") {
     return settings.gallery.customImages.filter(Boolean);
@@ -253,6 +629,9 @@ export function buildGalleryImageList(settings: SiteSettings): string[] {
     typeof settings.gallery.assetVersion === "number"
       ? settings.gallery.assetVersion
       : 1;
+  // The manifest knows which numbers exist; other folders are still guessed
+  // (and missing files hidden by the gallery's onError).
+  const scanned = folder.replace(/\/+$/, "") === galleryManifest.folder;
 
   const range = Array.from({ length: safeEnd - safeStart + 1 }, (_, i) => safeStart + i);
 
@@ -274,25 +653,25 @@ export function buildGalleryImageList(settings: SiteSettings): string[] {
     ? [...baseOrdered, ...range.filter((n) => !baseSet.has(n))]
     : range;
 
-  return orderedNumbers.map((n) => `${folder}/${n}.${ext}?v=${v}`);
+  return orderedNumbers
+    .map((n) => `${folder.replace(/\/+$/, "")}/${n}.${ext}`)
+    .filter((path) => !scanned || MANIFEST_FILES.has(path))
+    .map((path) => versionedAssetUrl(path, v));
 }
 
 interface SiteSettingsContextType {
   settings: SiteSettings;
-  setSettings: (settings: SiteSettings) => void;
-  updateSettings: (updater: (prev: SiteSettings) => SiteSettings) => void;
-  resetSettings: () => void;
   loading: boolean;
 }
 
 const SiteSettingsContext = createContext<SiteSettingsContextType | null>(null);
 
+/** Provides the published settings; admin edits go through useSettingsDraft(). */
 export function SiteSettingsProvider({ children }: { children: ReactNode }) {
   const [settings, setSettingsState] = useState<SiteSettings>(() =>
     loadFromLocalStorage()
   );
   const [loading, setLoading] = useState(true);
-  const [firestoreAvailable, setFirestoreAvailable] = useState(false);
 
   // Load from Firestore on mount, then subscribe to live updates
   useEffect(() => {
@@ -306,19 +685,8 @@ export function SiteSettingsProvider({ children }: { children: ReactNode }) {
           const merged = mergeSettings(remote as Partial<SiteSettings>);
           setSettingsState(merged);
           saveToLocalStorage(merged);
-          setFirestoreAvailable(true);
-        } else {
-          // No settings in Firestore yet — use local and push to Firestore
-          const local = loadFromLocalStorage();
-          try {
-            await saveSiteSettingsToFirestore(
-              JSON.parse(JSON.stringify(local)) as Record<string, unknown>
-            );
-            setFirestoreAvailable(true);
-          } catch {
-            // Firestore not configured yet, use localStorage
-          }
         }
+        // Nothing published yet: keep the local/default settings until a manager publishes.
 
         // Subscribe to live updates
         unsubscribe = subscribeSiteSettings((data) => {
@@ -326,7 +694,6 @@ export function SiteSettingsProvider({ children }: { children: ReactNode }) {
             const merged = mergeSettings(data as Partial<SiteSettings>);
             setSettingsState(merged);
             saveToLocalStorage(merged);
-            setFirestoreAvailable(true);
           }
         });
       } catch {
@@ -343,44 +710,27 @@ export function SiteSettingsProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
-  const value = useMemo<SiteSettingsContextType>(() => {
-    return {
-      settings,
-      loading,
-      setSettings: (next) => {
-        setSettingsState(next);
-        saveToLocalStorage(next);
-        if (firestoreAvailable) {
-          saveSiteSettingsToFirestore(
-            JSON.parse(JSON.stringify(next)) as Record<string, unknown>
-          ).catch(() => {});
-        }
-      },
-      updateSettings: (updater) => {
-        setSettingsState((prev) => {
-          const next = updater(prev);
-          saveToLocalStorage(next);
-          if (firestoreAvailable) {
-            saveSiteSettingsToFirestore(
-              JSON.parse(JSON.stringify(next)) as Record<string, unknown>
-            ).catch(() => {});
-          }
-          return next;
-        });
-      },
-      resetSettings: () => {
-        const def = deepClone(DEFAULT_SITE_SETTINGS);
-        setSettingsState(def);
-        saveToLocalStorage(def);
-        if (firestoreAvailable) {
-          saveSiteSettingsToFirestore(
-            JSON.parse(JSON.stringify(def)) as Record<string, unknown>
-          ).catch(() => {});
-        }
-      },
-    };
-  }, [settings, loading, firestoreAvailable]);
+  const value = useMemo<SiteSettingsContextType>(
+    () => ({ settings, loading }),
+    [settings, loading]
+  );
+
+  return (
+    <SiteSettingsContext.Provider value={value}>
+      {children}
+    </SiteSettingsContext.Provider>
+  );
+}
 
+/** Serves `settings` to everything inside instead of the published ones ("Preview as visitor"). */
+export function SiteSettingsPreview({
+  settings,
+  children,
+}: {
+  settings: SiteSettings;
+  children: ReactNode;
+}) {
+  const value = useMemo<SiteSettingsContextType>(() => ({ settings, loading: false }), [settings]);
   return (
     <SiteSettingsContext.Provider value={value}>
       {children}
@@ -394,3 +744,67 @@ export function useSiteSettings() {
     throw new Error("useSiteSettings must be used within SiteSettingsProvider");
   return ctx;
 }
+
+function toFirestoreData(settings: SiteSettings) {
+  return JSON.parse(JSON.stringify(settings)) as Record<string, unknown>;
+}
+
+/**
+ * Admin side of draft/publish: the saved draft (the published settings until
+ * one is saved), whether it differs from what's live, and actions to save,
+ * publish and roll back. Each resolves to false/null when Firestore rejects it.
+ */
+export function useSettingsDraft() {
+  const { settings: published, loading } = useSiteSettings();
+  const [saved, setSaved] = useState<SiteSettings | null>(null);
+  const [draftLoading, setDraftLoading] = useState(true);
+
+  useEffect(
+    () =>
+      subscribeSiteSettingsDraft((data) => {
+        setSaved(data ? mergeSettings(data as Partial<SiteSettings>) : null);
+        setDraftLoading(false);
+      }),
+    []
+  );
+
+  const draft = saved ?? published;
+
+  return {
+    draft,
+    published,
+    loading: loading || draftLoading,
+    hasUnpublishedChanges: JSON.stringify(draft) !== JSON.stringify(published),
+    saveDraft: (next: SiteSettings) => saveSiteSettingsDraft(toFirestoreData(next)),
+    /** Saves `next` as the draft, then promotes it. */
+    publish: async (next: SiteSettings) =>
+      (await saveSiteSettingsDraft(toFirestoreData(next))) &&
+      publishSiteSettingsDraft(currentAdminEmail() || "admin"),
+    /** Publishes an older revision again; resolves to its settings (now also the draft). */
+    restore: async (revisionId: string) => {
+      const data = await restoreSettingsRevision(revisionId, currentAdminEmail() || "admin");
+      return data ? mergeSettings(data as Partial<SiteSettings>) : null;
+    },
+  };
+}
+
+export type PublishedRevision = Omit<SettingsRevision, "settings"> & { settings: SiteSettings };
+
+/** Published revisions, newest first (the first is what's live). */
+export function useSettingsHistory() {
+  const [revisions, setRevisions] = useState<PublishedRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(
+    () =>
+      subscribeSettingsRevisions((list) => {
+        setRevisions(
+          list.map((r) => ({ ...r, settings: mergeSettings(r.settings as Partial<SiteSettings>) }))
+        );
+        setLoading(false);
+      }),
+    []
+  );
+
+  return { revisions, loading };
+}
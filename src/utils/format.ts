@@ -0,0 +1,37 @@
+export function formatTime24To12(time: string) {
+  const [h, m] = time.split(":").map((v) => parseInt(v, 10));
+  if (Number.isNaN(h) || Number.isNaN(m)) return time;
+  const suffix = h >= 12 ? "PM" : "AM";
+  return `${((h + 11) % 12) + 1}:${String(m).padStart(2, "0")} ${suffix}`;
+}
+
+export function formatDateShort(dateStr: string) {
+  const d = new Date(`${dateStr}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  });
+}
+
+/** Like formatDateShort() for a full ISO timestamp (e.g. a review's `date`). */
+export function formatTimestampShort(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  });
+}
+
+/** e.g. 90 → "1 hr 30 min", 240 → "4 hrs". */
+export function formatDuration(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  const parts: string[] = [];
+  if (h) parts.push(`${h} ${h === 1 ? "hr" : "hrs"}`);
+  if (m || !h) parts.push(`${m} min`);
+  return parts.join(" ");
+}
@@ -0,0 +1,131 @@
+// Browser-side image pipeline for admin uploads: phone photos are resized into
+// a few widths and re-encoded as AVIF/WebP (plus a JPEG fallback) so the
+// gallery can serve srcset images. Re-drawing through a canvas drops all EXIF
+// metadata, including GPS location. Uploaded videos get a captured poster frame.
+
+export type ImageFormat = "avif" | "webp" | "jpeg";
+
+/** Widths generated for srcset (never upscaled past the original). */
+export const RESPONSIVE_WIDTHS = [480, 960, 1600];
+
+const QUALITY: Record<ImageFormat, number> = { avif: 0.6, webp: 0.78, jpeg: 0.82 };
+const PLACEHOLDER_WIDTH = 16;
+
+export interface ProcessedVariant {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  blob: Blob;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  /** Tiny JPEG data URL, shown blurred while the real image loads. */
+  placeholder: string;
+  variants: ProcessedVariant[];
+}
+
+function drawScaled(source: ImageBitmap, width: number) {
+  const height = Math.max(1, Math.round((source.height / source.width) * width));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+/** Encodes the canvas, or resolves null when the browser can't write that format. */
+function encode(canvas: HTMLCanvasElement, format: ImageFormat): Promise<Blob | null> {
+  const type = `image/${format}`;
+  return new Promise((resolve) => {
+    // Unsupported types silently fall back to PNG, so check what came back.
+    canvas.toBlob((blob) => resolve(blob && blob.type === type ? blob : null), type, QUALITY[format]);
+  });
+}
+
+/**
+ * Decode `file` (honouring its EXIF orientation) and build the responsive
+ * variants: AVIF and WebP at each width the browser can encode, and a JPEG at
+ * the largest width as the `<img src>` fallback (at every width if neither
+ * modern format is available).
+ */
+export async function processImage(file: File): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const widths = Array.from(
+      new Set(RESPONSIVE_WIDTHS.map((w) => Math.min(w, bitmap.width)))
+    ).sort((a, b) => a - b);
+    const largest = widths[widths.length - 1];
+
+    const variants: ProcessedVariant[] = [];
+    let modern = false;
+    for (const width of widths) {
+      const canvas = drawScaled(bitmap, width);
+      for (const format of ["avif", "webp"] as const) {
+        const blob = await encode(canvas, format);
+        if (!blob) continue;
+        modern = true;
+        variants.push({ width, height: canvas.height, format, blob });
+      }
+    }
+    for (const width of modern ? [largest] : widths) {
+      const canvas = drawScaled(bitmap, width);
+      const blob = await encode(canvas, "jpeg");
+      if (!blob) throw new Error("JPEG encoding failed");
+      variants.push({ width, height: canvas.height, format: "jpeg", blob });
+    }
+
+    const placeholder = drawScaled(bitmap, PLACEHOLDER_WIDTH).toDataURL("image/jpeg", 0.5);
+    return {
+      width: largest,
+      height: Math.round((bitmap.height / bitmap.width) * largest),
+      placeholder,
+      variants,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Width of the still captured from uploaded videos. */
+const POSTER_WIDTH = 960;
+
+/**
+ * Grab a frame a little way into a video (the very first one is often black)
+ * as a JPEG, for the gallery tile and lightbox poster.
+ */
+export async function captureVideoFrame(file: File): Promise<Blob> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => {
+        video.currentTime = Math.min(1, (video.duration || 0) / 2);
+      };
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error("Video could not be decoded"));
+      video.src = url;
+    });
+    const width = Math.min(POSTER_WIDTH, video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * width));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not available");
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const blob = await encode(canvas, "jpeg");
+    if (!blob) throw new Error("JPEG encoding failed");
+    return blob;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
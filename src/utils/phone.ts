@@ -0,0 +1,23 @@
+/**
+ * Normalise a client-entered phone number to international digits (no "+").
+ * Local South African numbers ("069 288 8445") are prefixed with 27.
+ */
+export function toInternationalDigits(phone: string, countryCode = "27") {
+  let digits = (phone || "").replace(/\D/g, "");
+  if (digits.startsWith("00")) digits = digits.slice(2);
+  if (digits.length === 10 && digits.startsWith("0")) {
+    digits = countryCode + digits.slice(1);
+  }
+  return digits;
+}
+
+export function whatsappLink(phone: string, text?: string) {
+  const digits = toInternationalDigits(phone);
+  if (!digits) return "";
+  return `https://wa.me/${digits}${text ? `?text=${encodeURIComponent(text)}` : ""}`;
+}
+
+export function telLink(phone: string) {
+  const digits = toInternationalDigits(phone);
+  return digits ? `tel:+${digits}` : "";
+}
@@ -0,0 +1,6 @@
+// Modules generated by the Vite plugins in plugins/.
+
+declare module "virtual:gallery-manifest" {
+  const manifest: import("../plugins/galleryManifest").GalleryManifest;
+  export default manifest;
+}
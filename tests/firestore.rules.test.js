@@ -0,0 +1,157 @@
+// Firestore security rules, run against the emulator: `npm test`.
+import { readFileSync } from "node:fs";
+import { after, beforeEach, describe, test } from "node:test";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+
+const testEnv = await initializeTestEnvironment({
+  projectId: "demo-berly-beauty",
+  firestore: { rules: readFileSync("firestore.rules", "utf8") },
+});
+
+after(() => testEnv.cleanup());
+beforeEach(() => testEnv.clearFirestore());
+
+/** Adds an `admins/{email}` entry (bypassing the rules). */
+async function addStaff(email, role) {
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    await setDoc(doc(ctx.firestore(), "admins", email), { role, active: true });
+  });
+}
+
+function asStaff(email) {
+  return testEnv.authenticatedContext(email, { email, email_verified: true }).firestore();
+}
+
+const VALID_REVIEW = {
+  name: "Thandi",
+  service: "Braids",
+  rating: 5,
+  text: "Lovely work, thank you!",
+};
+
+function newReview(patch = {}) {
+  return { ...VALID_REVIEW, date: serverTimestamp(), status: "pending", ...patch };
+}
+
+// Reviews are only created by the API server (Admin SDK), which validates, rate-limits and
+// spam-scores them; see tests/reviews.test.js for the payload checks.
+test("reviews: a valid review written directly by a client is denied", () =>
+  assertFails(addDoc(collection(testEnv.unauthenticatedContext().firestore(), "reviews"), newReview())));
+
+describe("reviews: reads", () => {
+  beforeEach(() =>
+    testEnv.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await setDoc(doc(db, "reviews", "approved"), newReview({ status: "approved" }));
+      await setDoc(doc(db, "reviews", "pending"), newReview());
+    })
+  );
+
+  test("visitors can read approved reviews", () =>
+    assertSucceeds(getDoc(doc(testEnv.unauthenticatedContext().firestore(), "reviews", "approved"))));
+
+  test("visitors can't read the moderation queue", () =>
+    assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), "reviews", "pending"))));
+
+  test("staff can read the moderation queue", async () => {
+    await addStaff("stylist@example.com", "stylist");
+    await assertSucceeds(getDoc(doc(asStaff("stylist@example.com"), "reviews", "pending")));
+  });
+
+  test("an unverified login for a staff email is not staff", async () => {
+    await addStaff("stylist@example.com", "stylist");
+    const unverified = testEnv
+      .authenticatedContext("someone-else", { email: "stylist@example.com", email_verified: false })
+      .firestore();
+    await assertFails(getDoc(doc(unverified, "reviews", "pending")));
+  });
+});
+
+describe("appointments: stylist updates", () => {
+  const STYLIST = "stylist@example.com";
+  const created = { at: "2026-01-01T08:00:00.000Z", actor: "client", status: "pending" };
+  const entry = (patch = {}) => ({ at: "2026-01-02T08:00:00.000Z", actor: STYLIST, status: "confirmed", ...patch });
+
+  beforeEach(async () => {
+    await addStaff(STYLIST, "stylist");
+    await testEnv.withSecurityRulesDisabled((ctx) =>
+      setDoc(doc(ctx.firestore(), "appointments", "a1"), {
+        firstName: "Lerato",
+        service: "braids",
+        date: "2026-02-01",
+        time: "09:00",
+        status: "pending",
+        history: [created],
+      })
+    );
+  });
+
+  const update = (data) => updateDoc(doc(asStaff(STYLIST), "appointments", "a1"), data);
+
+  test("confirming with one new history entry is allowed", () =>
+    assertSucceeds(update({ status: "confirmed", history: [created, entry()] })));
+
+  test("replacing the history is denied", () =>
+    assertFails(update({ status: "confirmed", history: [entry()] })));
+
+  test("adding two entries is denied", () =>
+    assertFails(update({ status: "confirmed", history: [created, entry(), entry()] })));
+
+  test("an entry under someone else's name is denied", () =>
+    assertFails(update({ status: "confirmed", history: [created, entry({ actor: "owner@example.com" })] })));
+
+  test("an unknown status is denied", () =>
+    assertFails(update({ status: "vip", history: [created, entry({ status: "vip" })] })));
+
+  test("moving the slot directly is denied", () =>
+    assertFails(
+      update({ date: "2026-02-02", status: "rescheduled", history: [created, entry({ status: "rescheduled" })] })
+    ));
+});
+
+describe("settings history", () => {
+  const MANAGER = "manager@example.com";
+  const history = () => collection(asStaff(MANAGER), "settings", "siteConfig", "history");
+  const revision = (patch = {}) => ({
+    settings: { contact: { phoneDisplay: "069 288 8445" } },
+    author: MANAGER,
+    publishedAt: serverTimestamp(),
+    ...patch,
+  });
+
+  beforeEach(() => addStaff(MANAGER, "manager"));
+
+  test("a manager can record their own revision", () => assertSucceeds(addDoc(history(), revision())));
+
+  test("a restore may name its source revision", () =>
+    assertSucceeds(addDoc(history(), revision({ restoredFrom: "r1" }))));
+
+  test("another author is denied", () =>
+    assertFails(addDoc(history(), revision({ author: "owner@example.com" }))));
+
+  test("a client-supplied timestamp is denied", () =>
+    assertFails(addDoc(history(), revision({ publishedAt: Timestamp.fromDate(new Date("2020-01-01")) }))));
+
+  test("an extra field is denied", () => assertFails(addDoc(history(), revision({ note: "x" }))));
+
+  test("stylists can't record revisions", async () => {
+    await addStaff("stylist@example.com", "stylist");
+    await assertFails(
+      addDoc(collection(asStaff("stylist@example.com"), "settings", "siteConfig", "history"), revision({ author: "stylist@example.com" }))
+    );
+  });
+});
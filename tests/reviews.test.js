@@ -0,0 +1,109 @@
+// Public review submissions (server/reviews.js), run against the emulator: `npm test`.
+// The rules deny every client create, so this is where the review schema is tested.
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, test } from "node:test";
+import { deleteApp, initializeApp } from "firebase-admin/app";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { ReviewError, createReview } from "../server/reviews.js";
+
+const app = initializeApp({ projectId: "demo-berly-beauty" }, "reviews-test");
+const db = getFirestore(app);
+
+after(() => deleteApp(app));
+beforeEach(() => db.recursiveDelete(db.collection("reviews")));
+
+const VALID_REVIEW = {
+  name: "Thandi",
+  service: "Braids",
+  rating: 5,
+  text: "Lovely work, thank you!",
+};
+
+async function stored(body) {
+  const { id } = await createReview(db, body);
+  return (await db.collection("reviews").doc(id).get()).data();
+}
+
+function rejects(body, field) {
+  return assert.rejects(createReview(db, body), (err) => {
+    assert.ok(err instanceof ReviewError);
+    assert.equal(err.status, 400);
+    assert.equal(err.field, field);
+    return true;
+  });
+}
+
+describe("createReview: rejected payloads", () => {
+  test("a missing field is rejected", () => {
+    const { service: _service, ...rest } = VALID_REVIEW;
+    return rejects(rest, "service");
+  });
+
+  for (const rating of [0, 6, 4.5]) {
+    test(`rating ${rating} is rejected`, () => rejects({ ...VALID_REVIEW, rating }, "rating"));
+  }
+
+  test("a 501-character text is rejected", () =>
+    rejects({ ...VALID_REVIEW, text: "a".repeat(501) }, "text"));
+
+  test("a name under 2 characters is rejected", () => rejects({ ...VALID_REVIEW, name: "T" }, "name"));
+
+  test("nothing is stored for a rejected payload", async () => {
+    await rejects({ ...VALID_REVIEW, rating: 0 }, "rating");
+    assert.equal((await db.collection("reviews").get()).size, 0);
+  });
+});
+
+describe("createReview: stored reviews", () => {
+  test("a valid review is queued as pending with a server date and spam score", async () => {
+    const before = Date.now();
+    const review = await stored(VALID_REVIEW);
+
+    assert.deepEqual(Object.keys(review).sort(), [
+      "date",
+      "name",
+      "rating",
+      "service",
+      "spam",
+      "status",
+      "text",
+      "textHash",
+    ]);
+    assert.equal(review.name, "Thandi");
+    assert.equal(review.rating, 5);
+    assert.equal(review.status, "pending");
+    assert.ok(review.date instanceof Timestamp);
+    assert.ok(review.date.toMillis() >= before - 60_000);
+    assert.deepEqual(review.spam, { score: 0, reasons: [] });
+  });
+
+  test("an extra field is dropped", async () => {
+    const review = await stored({ ...VALID_REVIEW, spam: { score: 0 }, approved: true });
+    assert.equal(review.approved, undefined);
+    assert.equal(review.spam.score, 0);
+  });
+
+  test("a client-supplied date is replaced by the server time", async () => {
+    const review = await stored({ ...VALID_REVIEW, date: "2020-01-01T00:00:00.000Z" });
+    assert.ok(review.date instanceof Timestamp);
+    assert.ok(review.date.toDate().getFullYear() > 2020);
+  });
+
+  test("a client-supplied status is ignored", async () => {
+    const review = await stored({ ...VALID_REVIEW, status: "approved" });
+    assert.equal(review.status, "pending");
+  });
+
+  test("a filled honeypot is scored as spam", async () => {
+    const review = await stored({ ...VALID_REVIEW, website: "https://example.com" });
+    assert.equal(review.spam.score, 100);
+    assert.ok(review.spam.reasons.includes("honeypot field filled"));
+  });
+
+  test("a repeated text is scored as a duplicate", async () => {
+    await stored(VALID_REVIEW);
+    const review = await stored({ ...VALID_REVIEW, name: "Lerato" });
+    assert.equal(review.spam.score, 60);
+    assert.ok(review.spam.reasons.includes("duplicate of an earlier submission"));
+  });
+});
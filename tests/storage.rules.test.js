@@ -0,0 +1,76 @@
+// Storage security rules (admin uploads), run against the emulators: `npm test`.
+// The rules read the staff allowlist from Firestore, so both emulators run.
+import { readFileSync } from "node:fs";
+import { after, beforeEach, describe, test } from "node:test";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, setDoc } from "firebase/firestore";
+import { ref, uploadBytes } from "firebase/storage";
+
+const testEnv = await initializeTestEnvironment({
+  projectId: "demo-berly-beauty",
+  firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  storage: { rules: readFileSync("storage.rules", "utf8") },
+});
+
+after(() => testEnv.cleanup());
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    await setDoc(doc(db, "admins", "manager@example.com"), { role: "manager", active: true });
+    await setDoc(doc(db, "admins", "stylist@example.com"), { role: "stylist", active: true });
+    await setDoc(doc(db, "admins", "viewer@example.com"), { role: "read-only", active: true });
+  });
+});
+
+function storageAs(email) {
+  return testEnv.authenticatedContext(email, { email, email_verified: true }).storage();
+}
+
+const IMAGE_PATH = "uploads/gallery/1700000000000-braids/960.webp";
+const webp = (bytes = 1024) => new Uint8Array(bytes);
+const upload = (storage, path, data, contentType) =>
+  uploadBytes(ref(storage, path), data, { contentType });
+
+describe("uploads", () => {
+  test("a manager can upload an image", () =>
+    assertSucceeds(upload(storageAs("manager@example.com"), IMAGE_PATH, webp(), "image/webp")));
+
+  test("a manager can upload a video", () =>
+    assertSucceeds(
+      upload(storageAs("manager@example.com"), "uploads/gallery/1700000000000-clip.mp4", webp(), "video/mp4")
+    ));
+
+  test("a stylist upload is denied", () =>
+    assertFails(upload(storageAs("stylist@example.com"), IMAGE_PATH, webp(), "image/webp")));
+
+  test("a read-only upload is denied", () =>
+    assertFails(upload(storageAs("viewer@example.com"), IMAGE_PATH, webp(), "image/webp")));
+
+  test("a signed-out upload is denied", () =>
+    assertFails(upload(testEnv.unauthenticatedContext().storage(), IMAGE_PATH, webp(), "image/webp")));
+
+  test("application/pdf is denied", () =>
+    assertFails(
+      upload(storageAs("manager@example.com"), "uploads/gallery/1700000000000-menu.pdf", webp(), "application/pdf")
+    ));
+
+  test("an image over 10 MB is denied", () =>
+    assertFails(
+      upload(storageAs("manager@example.com"), IMAGE_PATH, webp(10 * 1024 * 1024 + 1), "image/webp")
+    ));
+
+  test("overwriting an existing file is denied", async () => {
+    const storage = storageAs("manager@example.com");
+    await assertSucceeds(upload(storage, IMAGE_PATH, webp(), "image/webp"));
+    await assertFails(upload(storage, IMAGE_PATH, webp(2048), "image/webp"));
+  });
+
+  test("other folders are denied", () =>
+    assertFails(upload(storageAs("manager@example.com"), "uploads/private/x/960.webp", webp(), "image/webp")));
+});